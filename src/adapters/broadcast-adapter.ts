@@ -0,0 +1,251 @@
+/**
+ * Broadcast adapters - carry channel traffic between server nodes
+ *
+ * Every node publishes envelopes tagged with its node ID and ignores its own.
+ * Nodes announce themselves with periodic heartbeats, so each node knows which
+ * peers are alive: a peer silent for NODE_TIMEOUT_MS, or one that says goodbye,
+ * is reported as left. The in-memory adapter only reaches adapters in the same
+ * process; RedisAdapter fans out through Redis pub/sub.
+ */
+
+import crypto from 'crypto';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import type { ChannelCount } from '../channels/channel-manager.js';
+import type { PresenceRecord } from '../presence/presence-manager.js';
+import type { OnlineRecord } from '../watchlists/watchlist-manager.js';
+import type { PresenceMember, WebSocketMessage } from '../types/index.js';
+
+export type AdapterMessage =
+  | {
+      type: 'publish';
+      appId: string;
+      channel: string;
+      message: WebSocketMessage;
+      excludeSocketId?: string;
+    }
+  | { type: 'user_event'; appId: string; userId: string; message: WebSocketMessage }
+  | { type: 'terminate_user'; appId: string; userId: string }
+  | { type: 'channel_count'; appId: string; channel: string; subscriberCount: number } // Subscribers on the sending node
+  | {
+      type: 'channel_state';
+      apps: Record<string, ChannelCount[]>; // app ID -> subscriber counts on the sending node
+      requestSync: boolean;
+    }
+  | { type: 'presence_join'; appId: string; channel: string; socketId: string; member: PresenceMember }
+  | { type: 'presence_leave'; appId: string; channel: string; socketId: string }
+  | {
+      type: 'presence_state';
+      apps: Record<string, PresenceRecord[]>; // app ID -> members on the sending node
+      requestSync: boolean; // Ask receivers to answer with their own state
+    }
+  | { type: 'user_online' | 'user_offline'; appId: string; userId: string; socketId: string }
+  | {
+      type: 'user_state';
+      apps: Record<string, OnlineRecord[]>; // app ID -> signed-in sockets on the sending node
+      requestSync: boolean;
+    }
+  | { type: 'heartbeat' }
+  | { type: 'node_leave' };
+
+export interface AdapterEnvelope {
+  nodeId: string;
+  message: AdapterMessage;
+}
+
+export type AdapterHandler = (envelope: AdapterEnvelope) => void;
+export type NodeHandler = (nodeId: string) => void;
+
+export interface BroadcastAdapter {
+  readonly nodeId: string;
+  connect(): Promise<void>;
+  publish(message: AdapterMessage): void;
+  onMessage(handler: AdapterHandler): void;
+  onNodeJoined(handler: NodeHandler): void;
+  onNodeLeft(handler: NodeHandler): void;
+  getNodes(): string[];
+  close(): Promise<void>;
+}
+
+/**
+ * Shared envelope handling and heartbeats; subclasses provide the transport
+ */
+export abstract class BaseAdapter implements BroadcastAdapter {
+  readonly nodeId: string;
+  private handlers: AdapterHandler[] = [];
+  private joinedHandlers: NodeHandler[] = [];
+  private leftHandlers: NodeHandler[] = [];
+  private nodes: Map<string, number> = new Map(); // peer node ID -> last seen
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+
+  constructor(nodeId: string = crypto.randomUUID()) {
+    this.nodeId = nodeId;
+  }
+
+  protected abstract open(): Promise<void>;
+  protected abstract send(payload: string): void;
+  protected abstract shutdown(): Promise<void>;
+
+  /**
+   * Connect the transport and start announcing this node
+   */
+  async connect(): Promise<void> {
+    await this.open();
+
+    this.publish({ type: 'heartbeat' });
+    this.heartbeatTimer = setInterval(() => {
+      this.publish({ type: 'heartbeat' });
+      this.expireNodes();
+    }, config.nodeHeartbeatMs);
+    this.heartbeatTimer.unref();
+
+    logger.info({ nodeId: this.nodeId, adapter: this.constructor.name }, 'Broadcast adapter connected');
+  }
+
+  /**
+   * Send a message to every other node
+   */
+  publish(message: AdapterMessage): void {
+    const envelope: AdapterEnvelope = { nodeId: this.nodeId, message };
+    this.send(JSON.stringify(envelope));
+  }
+
+  /**
+   * Register a handler for messages from other nodes
+   */
+  onMessage(handler: AdapterHandler): void {
+    this.handlers.push(handler);
+  }
+
+  /**
+   * Register a handler for peers seen for the first time
+   */
+  onNodeJoined(handler: NodeHandler): void {
+    this.joinedHandlers.push(handler);
+  }
+
+  /**
+   * Register a handler for peers that timed out or shut down
+   */
+  onNodeLeft(handler: NodeHandler): void {
+    this.leftHandlers.push(handler);
+  }
+
+  /**
+   * Get this node and every live peer
+   */
+  getNodes(): string[] {
+    return [this.nodeId, ...this.nodes.keys()];
+  }
+
+  /**
+   * Say goodbye, stop heartbeats and disconnect the transport
+   */
+  async close(): Promise<void> {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    this.publish({ type: 'node_leave' });
+    await this.shutdown();
+  }
+
+  /**
+   * Report peers that have not been heard from within NODE_TIMEOUT_MS
+   */
+  private expireNodes(): void {
+    const cutoff = Date.now() - config.nodeTimeoutMs;
+
+    for (const [nodeId, lastSeen] of this.nodes.entries()) {
+      if (lastSeen < cutoff) {
+        logger.warn({ nodeId }, 'Node timed out');
+        this.removeNode(nodeId);
+      }
+    }
+  }
+
+  private removeNode(nodeId: string): void {
+    if (this.nodes.delete(nodeId)) {
+      this.notify(this.leftHandlers, nodeId);
+    }
+  }
+
+  private notify(handlers: NodeHandler[], nodeId: string): void {
+    for (const handler of handlers) {
+      try {
+        handler(nodeId);
+      } catch (error) {
+        logger.error({ error, nodeId }, 'Error handling node change');
+      }
+    }
+  }
+
+  /**
+   * Dispatch a raw envelope received from the transport
+   */
+  protected receive(payload: string): void {
+    let envelope: AdapterEnvelope;
+    try {
+      envelope = JSON.parse(payload) as AdapterEnvelope;
+    } catch (error) {
+      logger.warn({ error }, 'Dropped malformed adapter message');
+      return;
+    }
+
+    // Transports like Redis echo our own messages back
+    if (envelope.nodeId === this.nodeId) {
+      return;
+    }
+
+    if (envelope.message.type === 'node_leave') {
+      logger.info({ nodeId: envelope.nodeId }, 'Node left');
+      this.removeNode(envelope.nodeId);
+      return;
+    }
+
+    const isNew = !this.nodes.has(envelope.nodeId);
+    this.nodes.set(envelope.nodeId, Date.now());
+    if (isNew) {
+      logger.info({ nodeId: envelope.nodeId }, 'Node joined');
+      this.notify(this.joinedHandlers, envelope.nodeId);
+    }
+
+    for (const handler of this.handlers) {
+      try {
+        handler(envelope);
+      } catch (error) {
+        logger.error({ error, type: envelope.message.type }, 'Error handling adapter message');
+      }
+    }
+  }
+}
+
+// Connected in-memory adapters in this process
+const memoryBus: Set<MemoryAdapter> = new Set();
+
+/**
+ * Default single-process adapter (also lets several nodes share one process in tests)
+ */
+export class MemoryAdapter extends BaseAdapter {
+  protected async open(): Promise<void> {
+    memoryBus.add(this);
+  }
+
+  protected send(payload: string): void {
+    if (!memoryBus.has(this)) {
+      return;
+    }
+
+    for (const adapter of memoryBus) {
+      if (adapter !== this) {
+        // Deliver asynchronously, like a network transport would
+        queueMicrotask(() => adapter.receive(payload));
+      }
+    }
+  }
+
+  protected async shutdown(): Promise<void> {
+    memoryBus.delete(this);
+  }
+}
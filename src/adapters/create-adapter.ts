@@ -0,0 +1,21 @@
+/**
+ * Pick the broadcast adapter from configuration
+ */
+
+import { config } from '../utils/config.js';
+import { MemoryAdapter, type BroadcastAdapter } from './broadcast-adapter.js';
+import { RedisAdapter } from './redis-adapter.js';
+
+/**
+ * Redis when REDIS_ENABLED=true, otherwise the single-process in-memory adapter
+ */
+export function createAdapter(): BroadcastAdapter {
+  if (config.redis?.enabled) {
+    if (!config.redis.url) {
+      throw new Error('REDIS_URL must be set when REDIS_ENABLED=true');
+    }
+    return new RedisAdapter(config.redis.url, config.redis.channel);
+  }
+
+  return new MemoryAdapter();
+}
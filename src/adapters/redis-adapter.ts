@@ -0,0 +1,36 @@
+/**
+ * Redis broadcast adapter - fans out envelopes through Redis pub/sub
+ * Uses one connection to publish and another to subscribe, since a subscribed
+ * Redis connection cannot run other commands.
+ */
+
+import { BaseAdapter } from './broadcast-adapter.js';
+import { RedisClient } from './redis-client.js';
+import { logger } from '../utils/logger.js';
+
+export class RedisAdapter extends BaseAdapter {
+  private publisher: RedisClient;
+  private subscriber: RedisClient;
+
+  constructor(url: string, private channel: string, nodeId?: string) {
+    super(nodeId);
+    this.publisher = new RedisClient(url);
+    this.subscriber = new RedisClient(url);
+  }
+
+  protected async open(): Promise<void> {
+    await this.publisher.connect();
+    await this.subscriber.connect();
+    await this.subscriber.subscribe(this.channel, (payload) => this.receive(payload));
+  }
+
+  protected send(payload: string): void {
+    this.publisher.command('PUBLISH', this.channel, payload).catch((error) => {
+      logger.warn({ error, channel: this.channel }, 'Failed to publish to Redis');
+    });
+  }
+
+  protected async shutdown(): Promise<void> {
+    await Promise.all([this.publisher.close(), this.subscriber.close()]);
+  }
+}
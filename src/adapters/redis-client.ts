@@ -0,0 +1,255 @@
+/**
+ * Minimal Redis client - RESP2 over TCP
+ * Supports plain commands and pub/sub, which is all the Redis adapter needs.
+ * Reconnects automatically and restores subscriptions after a dropped connection.
+ */
+
+import net from 'net';
+import { logger } from '../utils/logger.js';
+
+export type RedisReply = string | number | null | RedisReply[];
+
+type ParsedReply = { reply: RedisReply | Error; offset: number };
+
+interface PendingCommand {
+  resolve: (reply: RedisReply) => void;
+  reject: (error: Error) => void;
+}
+
+const RECONNECT_DELAY_MS = 1000;
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ */
+function encodeCommand(args: string[]): string {
+  let encoded = `*${args.length}\r\n`;
+  for (const arg of args) {
+    encoded += `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`;
+  }
+  return encoded;
+}
+
+/**
+ * Parse one reply starting at offset, or return null if it is incomplete
+ */
+function parseReply(buffer: Buffer, offset: number): ParsedReply | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) {
+    return null;
+  }
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { reply: line, offset: next };
+    case '-':
+      return { reply: new Error(line), offset: next };
+    case ':':
+      return { reply: Number(line), offset: next };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) {
+        return { reply: null, offset: next };
+      }
+      if (buffer.length < next + length + 2) {
+        return null;
+      }
+      return { reply: buffer.toString('utf8', next, next + length), offset: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) {
+        return { reply: null, offset: next };
+      }
+
+      const items: RedisReply[] = [];
+      let cursor = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, cursor);
+        if (!item) {
+          return null;
+        }
+        items.push(item.reply instanceof Error ? item.reply.message : item.reply);
+        cursor = item.offset;
+      }
+      return { reply: items, offset: cursor };
+    }
+    default:
+      throw new Error(`Unexpected RESP type: ${type}`);
+  }
+}
+
+export class RedisClient {
+  private socket: net.Socket | null = null;
+  private buffer: Buffer = Buffer.alloc(0);
+  private pending: PendingCommand[] = [];
+  private subscriptions: Map<string, (message: string) => void> = new Map(); // channel -> handler
+  private closing = false;
+  private connected = false;
+
+  constructor(private url: string) {}
+
+  /**
+   * Open the connection, authenticate and restore subscriptions
+   */
+  async connect(): Promise<void> {
+    const { hostname, port, username, password } = new URL(this.url);
+
+    await new Promise<void>((resolve, reject) => {
+      const socket = net.connect({ host: hostname || 'localhost', port: Number(port) || 6379 });
+
+      socket.once('connect', () => {
+        socket.off('error', reject);
+        resolve();
+      });
+      socket.once('error', reject);
+      socket.on('data', (chunk) => this.handleData(chunk));
+      socket.on('close', () => this.handleClose());
+      socket.on('error', (error) => logger.warn({ error }, 'Redis connection error'));
+
+      this.socket = socket;
+    });
+
+    this.closing = false;
+
+    try {
+      if (password) {
+        const credentials = [decodeURIComponent(password)];
+        if (username) {
+          credentials.unshift(decodeURIComponent(username));
+        }
+        await this.command('AUTH', ...credentials);
+      }
+
+      for (const channel of this.subscriptions.keys()) {
+        await this.command('SUBSCRIBE', channel);
+      }
+    } catch (error) {
+      this.socket?.destroy();
+      throw error;
+    }
+
+    this.connected = true;
+  }
+
+  /**
+   * Send a command and wait for its reply
+   */
+  command(...args: string[]): Promise<RedisReply> {
+    const socket = this.socket;
+    if (!socket) {
+      return Promise.reject(new Error('Redis client is not connected'));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  /**
+   * Subscribe to a channel (the connection can only run pub/sub commands afterwards)
+   */
+  async subscribe(channel: string, handler: (message: string) => void): Promise<void> {
+    this.subscriptions.set(channel, handler);
+    await this.command('SUBSCRIBE', channel);
+  }
+
+  /**
+   * Close the connection without reconnecting
+   */
+  async close(): Promise<void> {
+    this.closing = true;
+    const socket = this.socket;
+    if (!socket) {
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      socket.once('close', () => resolve());
+      socket.end();
+    });
+  }
+
+  private handleData(chunk: Buffer): void {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    let offset = 0;
+    let parsed: ParsedReply | null;
+    try {
+      while ((parsed = parseReply(this.buffer, offset))) {
+        offset = parsed.offset;
+        this.dispatch(parsed.reply);
+      }
+    } catch (error) {
+      logger.error({ error }, 'Invalid reply from Redis, dropping connection');
+      this.socket?.destroy();
+      return;
+    }
+
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  private dispatch(reply: RedisReply | Error): void {
+    // Pub/sub pushes are not replies to a pending command
+    if (Array.isArray(reply) && reply[0] === 'message') {
+      const handler = this.subscriptions.get(String(reply[1]));
+      handler?.(String(reply[2]));
+      return;
+    }
+
+    const pending = this.pending.shift();
+    if (!pending) {
+      logger.warn({ reply }, 'Unexpected reply from Redis');
+      return;
+    }
+
+    if (reply instanceof Error) {
+      pending.reject(reply);
+    } else {
+      pending.resolve(reply);
+    }
+  }
+
+  private handleClose(): void {
+    const wasConnected = this.connected;
+    this.socket = null;
+    this.connected = false;
+    this.buffer = Buffer.alloc(0);
+
+    for (const pending of this.pending.splice(0)) {
+      pending.reject(new Error('Redis connection closed'));
+    }
+
+    if (wasConnected && !this.closing) {
+      logger.warn({ url: this.redactedUrl() }, 'Redis connection lost, reconnecting');
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    setTimeout(() => {
+      if (this.closing) {
+        return;
+      }
+
+      this.connect()
+        .then(() => logger.info({ url: this.redactedUrl() }, 'Redis connection restored'))
+        .catch((error) => {
+          logger.warn({ error }, 'Redis reconnect failed');
+          this.scheduleReconnect();
+        });
+    }, RECONNECT_DELAY_MS).unref();
+  }
+
+  private redactedUrl(): string {
+    const url = new URL(this.url);
+    if (url.password) {
+      url.password = '***';
+    }
+    return url.toString();
+  }
+}
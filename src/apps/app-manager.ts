@@ -0,0 +1,186 @@
+/**
+ * App management - registry of tenant apps and their isolated state
+ * Each app gets its own channels, presence and rate limits
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { logger } from '../utils/logger.js';
+import { config } from '../utils/config.js';
+import { appsFileSchema } from '../utils/validation.js';
+import { ChannelManager } from '../channels/channel-manager.js';
+import { PresenceManager } from '../presence/presence-manager.js';
+import { HistoryManager } from '../history/history-manager.js';
+import { WatchlistManager } from '../watchlists/watchlist-manager.js';
+import { RateLimiter } from '../rate-limit/rate-limiter.js';
+import { channelWebhooks, presenceWebhooks } from '../webhooks/webhook-sender.js';
+import type { App } from '../types/index.js';
+
+export interface AppContext {
+  app: App;
+  channels: ChannelManager;
+  presence: PresenceManager;
+  history: HistoryManager;
+  watchlists: WatchlistManager;
+  rateLimiter: RateLimiter;
+}
+
+/**
+ * Build the single app described by environment variables
+ */
+function getEnvApp(): App {
+  return {
+    id: config.appId,
+    key: config.appKey,
+    secret: config.authSecret,
+    allowedOrigins: config.allowedOrigins,
+    rateLimit: config.rateLimit,
+    enableClientMessages: config.enableClientMessages,
+    webhookUrl: config.webhookUrl || undefined,
+    encryptionMasterKey: config.encryptionMasterKey || undefined,
+    authEndpointToken: config.authEndpointToken || undefined,
+  };
+}
+
+/**
+ * Load apps from a JSON or YAML file, filling unset fields from env config
+ */
+export function loadAppsFromFile(filePath: string): App[] {
+  const contents = fs.readFileSync(filePath, 'utf8');
+  const extension = path.extname(filePath).toLowerCase();
+  const raw: unknown = extension === '.yaml' || extension === '.yml'
+    ? parseYaml(contents)
+    : JSON.parse(contents);
+
+  const parsed = appsFileSchema.parse(raw);
+
+  return parsed.apps.map((app) => ({
+    id: app.id,
+    key: app.key,
+    secret: app.secret,
+    allowedOrigins: app.allowedOrigins ?? config.allowedOrigins,
+    rateLimit: { ...config.rateLimit, ...app.rateLimit },
+    enableClientMessages: app.enableClientMessages ?? config.enableClientMessages,
+    webhookUrl: app.webhookUrl ?? (config.webhookUrl || undefined),
+    encryptionMasterKey: app.encryptionMasterKey ?? (config.encryptionMasterKey || undefined),
+    // Not inherited from AUTH_ENDPOINT_TOKEN: a shared token would let one app's backend sign for another
+    authEndpointToken: app.authEndpointToken,
+  }));
+}
+
+export class AppManager {
+  private apps: Map<string, App> = new Map(); // app ID -> app
+  private appsByKey: Map<string, App> = new Map(); // app key -> app
+  private contexts: Map<string, AppContext> = new Map(); // app ID -> state
+
+  constructor(apps: App[]) {
+    this.load(apps);
+  }
+
+  /**
+   * Replace the registered apps (drops all existing app state)
+   */
+  load(apps: App[]): void {
+    this.apps.clear();
+    this.appsByKey.clear();
+    this.contexts.clear();
+
+    for (const app of apps) {
+      this.apps.set(app.id, app);
+      this.appsByKey.set(app.key, app);
+    }
+
+    logger.info({ apps: apps.map((app) => app.id) }, 'Apps loaded');
+  }
+
+  /**
+   * Find app by ID (used by the REST API)
+   */
+  findById(appId: string): App | undefined {
+    return this.apps.get(appId);
+  }
+
+  /**
+   * Find app by key (used by WebSocket connections and signatures)
+   */
+  findByKey(appKey: string): App | undefined {
+    return this.appsByKey.get(appKey);
+  }
+
+  /**
+   * Get the default app (first registered) for legacy single-app endpoints
+   */
+  getDefault(): App {
+    const [first] = this.apps.values();
+    return first;
+  }
+
+  /**
+   * Get all registered apps
+   */
+  getAll(): App[] {
+    return Array.from(this.apps.values());
+  }
+
+  /**
+   * Get or create the isolated state for an app
+   */
+  getContext(app: App): AppContext {
+    let context = this.contexts.get(app.id);
+
+    if (!context) {
+      context = {
+        app,
+        channels: new ChannelManager(channelWebhooks(app)),
+        presence: new PresenceManager(presenceWebhooks(app)),
+        history: new HistoryManager(),
+        watchlists: new WatchlistManager(),
+        rateLimiter: new RateLimiter(app.rateLimit),
+      };
+      this.contexts.set(app.id, context);
+    }
+
+    return context;
+  }
+
+  /**
+   * Get state for every app that has been used
+   */
+  getContexts(): AppContext[] {
+    return Array.from(this.contexts.values());
+  }
+}
+
+function loadConfiguredApps(): App[] {
+  let apps: App[];
+  try {
+    apps = config.appsFile ? loadAppsFromFile(config.appsFile) : [getEnvApp()];
+  } catch (error) {
+    logger.error({ error, file: config.appsFile }, 'Failed to load apps file');
+    process.exit(1);
+  }
+
+  // An open /auth signs subscriptions for anyone, which defeats private channels
+  const openApps = config.authProxyUrl ? [] : apps.filter((app) => !app.authEndpointToken).map((app) => app.id);
+  if (openApps.length > 0) {
+    if (process.env.NODE_ENV === 'production') {
+      logger.error({ apps: openApps }, 'Apps need an auth endpoint token, or AUTH_PROXY_URL must be set in production!');
+      process.exit(1);
+    }
+    logger.warn({ apps: openApps }, 'No auth endpoint token or AUTH_PROXY_URL set, POST /auth and /user-auth sign requests from any caller for these apps');
+  }
+
+  return apps;
+}
+
+export const appManager = new AppManager(loadConfiguredApps());
+
+// Periodic rate limiter, channel cache and history cleanup every 5 minutes
+setInterval(() => {
+  for (const context of appManager.getContexts()) {
+    context.rateLimiter.cleanup();
+    context.channels.pruneCache();
+    context.history.prune();
+  }
+}, 5 * 60 * 1000).unref();
@@ -0,0 +1,145 @@
+/**
+ * Authorization delegation - lets an upstream application decide /auth and /user-auth
+ *
+ * Each request is POSTed to AUTH_PROXY_URL as JSON (see AuthProxyRequest) with the
+ * caller's cookies and Authorization header, so the upstream can use its own sessions.
+ * It answers {"allow": ...} plus the presence channel_data or user_data to sign; the
+ * client's own channel_data/user_data are never trusted in this mode.
+ *
+ * Answers are cached for AUTH_PROXY_CACHE_TTL_SEC per caller credentials and channel.
+ * Timeouts, errors and malformed answers fail closed: nothing is signed or cached.
+ */
+
+import crypto from 'crypto';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { authProxyResponseSchema } from '../utils/validation.js';
+import { getChannelType } from '../utils/channel-utils.js';
+import type { AuthProxyRequest, AuthProxyResponse } from '../types/index.js';
+
+const MAX_CACHE_ENTRIES = 10000;
+const FORWARDED_HEADERS = ['cookie', 'authorization', 'origin', 'user-agent'];
+
+export type ForwardedHeaders = Record<string, string | string[] | undefined>;
+
+interface CachedAnswer {
+  response: AuthProxyResponse;
+  expiresAt: number;
+}
+
+export class AuthProxy {
+  private cache: Map<string, CachedAnswer> = new Map(); // Request fingerprint -> answer, oldest first
+
+  /**
+   * Delegation is off unless AUTH_PROXY_URL is set
+   */
+  isEnabled(): boolean {
+    return Boolean(config.authProxyUrl);
+  }
+
+  /**
+   * Ask the upstream whether to sign a request; null when it could not decide
+   */
+  async authorize(request: AuthProxyRequest, headers: ForwardedHeaders, ip: string): Promise<AuthProxyResponse | null> {
+    const forwarded = this.pickHeaders(headers);
+    const key = this.fingerprint(request, forwarded);
+
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.response;
+    }
+    this.cache.delete(key);
+
+    const response = await this.fetchAnswer(request, { ...forwarded, 'x-forwarded-for': ip });
+    if (response && config.authProxyCacheTtlSec > 0) {
+      this.cache.set(key, { response, expiresAt: Date.now() + config.authProxyCacheTtlSec * 1000 });
+      if (this.cache.size > MAX_CACHE_ENTRIES) {
+        this.cache.delete(this.cache.keys().next().value!);
+      }
+    }
+
+    return response;
+  }
+
+  /**
+   * Clear cached answers (useful for testing)
+   */
+  clear(): void {
+    this.cache.clear();
+  }
+
+  private async fetchAnswer(request: AuthProxyRequest, headers: Record<string, string>): Promise<AuthProxyResponse | null> {
+    try {
+      const response = await fetch(config.authProxyUrl, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+        signal: AbortSignal.timeout(config.authProxyTimeoutMs),
+      });
+
+      // Plain 401/403 answers are denials too
+      if (response.status === 401 || response.status === 403) {
+        await response.body?.cancel();
+        return { allow: false };
+      }
+      if (!response.ok) {
+        await response.body?.cancel();
+        logger.warn({ status: response.status, type: request.type }, 'Auth proxy upstream failed');
+        return null;
+      }
+
+      const validated = authProxyResponseSchema.safeParse(await response.json());
+      if (!validated.success) {
+        logger.warn({ errors: validated.error.errors }, 'Invalid auth proxy answer');
+        return null;
+      }
+
+      return this.isComplete(request, validated.data) ? validated.data : null;
+    } catch (error) {
+      logger.warn({ error, type: request.type }, 'Auth proxy request failed');
+      return null;
+    }
+  }
+
+  /**
+   * An allowed presence subscription or sign-in must say who the user is
+   */
+  private isComplete(request: AuthProxyRequest, response: AuthProxyResponse): boolean {
+    if (!response.allow) {
+      return true;
+    }
+
+    const missing =
+      request.type === 'user'
+        ? !response.user_data
+        : getChannelType(request.channel_name) === 'presence' && !response.channel_data;
+    if (missing) {
+      logger.warn({ type: request.type }, 'Auth proxy allowed a request without identifying the user');
+    }
+    return !missing;
+  }
+
+  private pickHeaders(headers: ForwardedHeaders): Record<string, string> {
+    const picked: Record<string, string> = {};
+    for (const name of FORWARDED_HEADERS) {
+      const value = headers[name];
+      if (value !== undefined) {
+        picked[name] = Array.isArray(value) ? value.join(', ') : value;
+      }
+    }
+    return picked;
+  }
+
+  /**
+   * Answers depend on who is asking and for what, not on the socket
+   */
+  private fingerprint(request: AuthProxyRequest, headers: Record<string, string>): string {
+    const { socket_id: _socketId, ...subject } = request;
+    return crypto
+      .createHash('sha256')
+      .update(JSON.stringify([subject, headers.cookie ?? '', headers.authorization ?? '']))
+      .digest('hex');
+  }
+}
+
+export const authProxy = new AuthProxy();
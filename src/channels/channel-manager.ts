@@ -1,13 +1,42 @@
 /**
  * Channel management - tracks channels and their subscribers
+ * One instance per app, so channel namespaces are isolated between apps
+ *
+ * Subscribers are only held for sockets on this node. Other nodes' subscriber
+ * counts are replicated in through the broadcast adapter, tagged with their
+ * node ID, so occupancy and subscription counts cover the whole cluster.
  */
 
 import { logger } from '../utils/logger.js';
-import type { ChannelInfo, ChannelType } from '../types/index.js';
+import { config } from '../utils/config.js';
+import type { ChannelInfo, WebSocketMessage } from '../types/index.js';
 import { getChannelType } from '../utils/channel-utils.js';
 
-class ChannelManager {
+/**
+ * Notified when a channel gains its first or loses its last subscriber in the cluster
+ * Only called for subscribers joining or leaving through this node
+ */
+export interface ChannelListener {
+  onChannelOccupied(channelName: string): void;
+  onChannelVacated(channelName: string): void;
+}
+
+export interface ChannelCount {
+  channelName: string;
+  subscriberCount: number;
+}
+
+interface CachedEvent {
+  message: WebSocketMessage;
+  expiresAt: number;
+}
+
+export class ChannelManager {
   private channels: Map<string, ChannelInfo> = new Map();
+  private cache: Map<string, CachedEvent> = new Map(); // cache channel -> last event (outlives subscribers)
+  private remote: Map<string, Map<string, number>> = new Map(); // channel -> node ID -> subscribers on that node
+
+  constructor(private listener?: ChannelListener) {}
 
   /**
    * Get or create a channel
@@ -40,8 +69,16 @@ class ChannelManager {
    */
   subscribe(channelName: string, socketId: string): void {
     const channel = this.getOrCreateChannel(channelName);
+    if (channel.subscribers.has(socketId)) {
+      return;
+    }
+
     channel.subscribers.add(socketId);
     logger.debug({ channelName, socketId, subscriberCount: channel.subscribers.size }, 'Subscriber added');
+
+    if (channel.subscribers.size === 1 && !this.remote.has(channelName)) {
+      this.listener?.onChannelOccupied(channelName);
+    }
   }
 
   /**
@@ -49,13 +86,14 @@ class ChannelManager {
    */
   unsubscribe(channelName: string, socketId: string): void {
     const channel = this.channels.get(channelName);
-    if (channel) {
-      channel.subscribers.delete(socketId);
-      
+    if (channel && channel.subscribers.delete(socketId)) {
       // Clean up empty channels
       if (channel.subscribers.size === 0) {
         this.channels.delete(channelName);
         logger.debug({ channelName }, 'Channel removed (no subscribers)');
+        if (!this.remote.has(channelName)) {
+          this.listener?.onChannelVacated(channelName);
+        }
       } else {
         logger.debug({ channelName, socketId, subscriberCount: channel.subscribers.size }, 'Subscriber removed');
       }
@@ -63,7 +101,111 @@ class ChannelManager {
   }
 
   /**
-   * Get all subscribers for a channel
+   * Record how many subscribers another node has in a channel
+   */
+  setNodeCount(channelName: string, nodeId: string, subscriberCount: number): void {
+    let nodes = this.remote.get(channelName);
+
+    if (subscriberCount > 0) {
+      if (!nodes) {
+        nodes = new Map();
+        this.remote.set(channelName, nodes);
+      }
+      nodes.set(nodeId, subscriberCount);
+    } else if (nodes?.delete(nodeId) && nodes.size === 0) {
+      this.remote.delete(channelName);
+    }
+  }
+
+  /**
+   * Forget every subscriber count replicated from a node
+   * Returns the channels that no longer have a subscriber anywhere.
+   */
+  removeNode(nodeId: string): string[] {
+    const vacated = this.dropNode(nodeId);
+
+    if (vacated.length > 0) {
+      logger.info({ nodeId, channels: vacated.length }, 'Vacated channels of departed node');
+    }
+
+    return vacated;
+  }
+
+  /**
+   * Replace every subscriber count replicated from a node with a snapshot of its counts
+   * Returns the channels that became occupied or vacated as a result.
+   */
+  replaceNode(nodeId: string, counts: ChannelCount[]): { occupied: string[]; vacated: string[] } {
+    const vacated = new Set(this.dropNode(nodeId));
+
+    const occupied: string[] = [];
+    for (const { channelName, subscriberCount } of counts) {
+      const wasOccupied = this.isOccupied(channelName);
+      this.setNodeCount(channelName, nodeId, subscriberCount);
+
+      // A channel dropped and re-added by the snapshot never emptied
+      if (!wasOccupied && this.isOccupied(channelName) && !vacated.delete(channelName)) {
+        occupied.push(channelName);
+      }
+    }
+
+    if (occupied.length > 0 || vacated.size > 0) {
+      logger.info({ nodeId, occupied: occupied.length, vacated: vacated.size }, 'Channel snapshot changed occupancy');
+    }
+
+    return { occupied, vacated: Array.from(vacated) };
+  }
+
+  private dropNode(nodeId: string): string[] {
+    const vacated: string[] = [];
+
+    for (const channelName of Array.from(this.remote.keys())) {
+      this.setNodeCount(channelName, nodeId, 0);
+      if (!this.isOccupied(channelName)) {
+        vacated.push(channelName);
+      }
+    }
+
+    return vacated;
+  }
+
+  /**
+   * Get the subscriber count of every channel on this node (to share with other nodes)
+   */
+  getLocalCounts(): ChannelCount[] {
+    return Array.from(this.channels.values(), (channel) => ({
+      channelName: channel.name,
+      subscriberCount: channel.subscribers.size,
+    }));
+  }
+
+  /**
+   * Get the number of subscribers a channel has across the cluster
+   */
+  getSubscriberCount(channelName: string): number {
+    let count = this.channels.get(channelName)?.subscribers.size ?? 0;
+    for (const nodeCount of this.remote.get(channelName)?.values() ?? []) {
+      count += nodeCount;
+    }
+    return count;
+  }
+
+  /**
+   * Check whether a channel has a subscriber anywhere in the cluster
+   */
+  isOccupied(channelName: string): boolean {
+    return this.channels.has(channelName) || this.remote.has(channelName);
+  }
+
+  /**
+   * Get the names of channels with a subscriber anywhere in the cluster
+   */
+  getOccupiedChannels(): string[] {
+    return Array.from(new Set([...this.channels.keys(), ...this.remote.keys()]));
+  }
+
+  /**
+   * Get this node's subscribers for a channel
    */
   getSubscribers(channelName: string): Set<string> {
     const channel = this.channels.get(channelName);
@@ -102,25 +244,64 @@ class ChannelManager {
   }
 
   /**
-   * Get all active channels
+   * Get all channels with subscribers on this node
    */
   getAllChannels(): ChannelInfo[] {
     return Array.from(this.channels.values());
   }
 
   /**
-   * Get channel count
+   * Get the number of channels with subscribers on this node
    */
   getChannelCount(): number {
     return this.channels.size;
   }
 
   /**
-   * Clear all channels (useful for testing)
+   * Remember the last event published to a cache channel for CACHE_TTL_SEC
+   */
+  setCachedEvent(channelName: string, message: WebSocketMessage): void {
+    this.cache.set(channelName, {
+      message,
+      expiresAt: Date.now() + config.cacheTtlSec * 1000,
+    });
+  }
+
+  /**
+   * Get the cached event for a channel, if one is still fresh
+   */
+  getCachedEvent(channelName: string): WebSocketMessage | undefined {
+    const cached = this.cache.get(channelName);
+    if (!cached) {
+      return undefined;
+    }
+
+    if (cached.expiresAt <= Date.now()) {
+      this.cache.delete(channelName);
+      return undefined;
+    }
+
+    return cached.message;
+  }
+
+  /**
+   * Drop expired cached events
+   */
+  pruneCache(): void {
+    const now = Date.now();
+    for (const [channelName, cached] of this.cache.entries()) {
+      if (cached.expiresAt <= now) {
+        this.cache.delete(channelName);
+      }
+    }
+  }
+
+  /**
+   * Clear all channels and cached events (useful for testing)
    */
   clear(): void {
     this.channels.clear();
+    this.cache.clear();
+    this.remote.clear();
   }
 }
-
-export const channelManager = new ChannelManager();
@@ -0,0 +1,116 @@
+/**
+ * Message history - per-channel ring buffers of published events
+ * One instance per app. Every recorded event gets a per-channel sequence
+ * number (`seq`), so a reconnecting client can ask for the events it missed.
+ * Buffers hold at most HISTORY_SIZE events, each for at most HISTORY_TTL_SEC.
+ *
+ * History is single-node. Sequence numbers are assigned by the node that
+ * records an event, so nodes publishing to the same channel would number
+ * different events alike, and a client resuming on another node could miss
+ * one. It is therefore off while the Redis adapter is enabled.
+ */
+
+import { config } from '../utils/config.js';
+import type { WebSocketMessage } from '../types/index.js';
+
+export interface HistoryEntry {
+  seq: number;
+  message: WebSocketMessage;
+  timeMs: number;
+}
+
+export interface HistoryRange {
+  entries: HistoryEntry[];
+  complete: boolean; // False when events after `since` have already been dropped
+}
+
+interface ChannelHistory {
+  lastSeq: number;
+  entries: HistoryEntry[]; // Oldest first
+}
+
+export class HistoryManager {
+  private channels: Map<string, ChannelHistory> = new Map();
+
+  /**
+   * History is off unless HISTORY_SIZE is set, and always off across several nodes
+   */
+  isEnabled(): boolean {
+    return config.historySize > 0 && !config.redis?.enabled;
+  }
+
+  /**
+   * Append an event and return it stamped with its sequence number
+   */
+  record(channelName: string, message: WebSocketMessage): WebSocketMessage {
+    let history = this.channels.get(channelName);
+    if (!history) {
+      history = { lastSeq: 0, entries: [] };
+      this.channels.set(channelName, history);
+    }
+
+    const seq = ++history.lastSeq;
+
+    const recorded: WebSocketMessage = { ...message, seq };
+    history.entries.push({ seq, message: recorded, timeMs: Date.now() });
+    this.trim(history);
+
+    return recorded;
+  }
+
+  /**
+   * Get the buffered events published after `since`
+   */
+  getSince(channelName: string, since: number): HistoryRange {
+    const history = this.channels.get(channelName);
+    if (!history) {
+      return { entries: [], complete: since === 0 };
+    }
+
+    this.trim(history);
+
+    // A client ahead of us saw a sequence this node has since forgotten
+    if (since > history.lastSeq) {
+      return { entries: [...history.entries], complete: false };
+    }
+
+    const oldestSeq = history.entries[0]?.seq ?? history.lastSeq + 1;
+    return {
+      entries: history.entries.filter((entry) => entry.seq > since),
+      complete: since >= oldestSeq - 1,
+    };
+  }
+
+  /**
+   * Drop expired events and forget channels with nothing left
+   */
+  prune(): void {
+    for (const [channelName, history] of this.channels.entries()) {
+      this.trim(history);
+      if (history.entries.length === 0) {
+        this.channels.delete(channelName);
+      }
+    }
+  }
+
+  /**
+   * Clear all history (useful for testing)
+   */
+  clear(): void {
+    this.channels.clear();
+  }
+
+  private trim(history: ChannelHistory): void {
+    const cutoff = Date.now() - config.historyTtlSec * 1000;
+    const { entries } = history;
+
+    let drop = Math.max(0, entries.length - config.historySize);
+    while (drop < entries.length && entries[drop].timeMs <= cutoff) {
+      drop++;
+    }
+
+    if (drop > 0) {
+      entries.splice(0, drop);
+    }
+  }
+}
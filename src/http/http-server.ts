@@ -2,27 +2,198 @@
  * HTTP server for authentication and health endpoints
  */
 
-import fastify, { FastifyInstance } from 'fastify';
+import crypto from 'crypto';
+import fastify, { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import { logger } from '../utils/logger.js';
 import { config } from '../utils/config.js';
-import { createAuthResponse } from '../utils/auth.js';
-import { authRequestSchema } from '../utils/validation.js';
+import { createAuthResponse, createUserAuthResponse } from '../utils/auth.js';
+import { verifyRestRequest } from '../utils/rest-auth.js';
+import { isTrustedProxy } from '../utils/client-ip.js';
+import {
+  authRequestSchema,
+  triggerEventSchema,
+  batchEventSchema,
+  batchEventsSchema,
+  channelsQuerySchema,
+  channelQuerySchema,
+  channelParamsSchema,
+  historyQuerySchema,
+  userAuthRequestSchema,
+  delegatedUserAuthRequestSchema,
+  userEventSchema,
+  userParamsSchema,
+} from '../utils/validation.js';
+import { getChannelType } from '../utils/channel-utils.js';
 import { wsServer } from '../ws/websocket-server.js';
-import type { AuthRequest } from '../types/index.js';
+import { authProxy } from '../auth-proxy/auth-proxy.js';
+import { metrics } from '../metrics/metrics.js';
+import { appManager, type AppContext } from '../apps/app-manager.js';
+import type {
+  App,
+  AuthRequest,
+  UserAuthRequest,
+  UserEventRequest,
+  UserEventResponse,
+  TerminateConnectionsResponse,
+  TriggerEventRequest,
+  TriggerEventResponse,
+  BatchEvent,
+  BatchEventsResponse,
+  ChannelAttributes,
+  ChannelInfoAttribute,
+  ChannelsResponse,
+  ChannelUsersResponse,
+  ChannelHistoryResponse,
+} from '../types/index.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    rawBody?: string;
+    app?: App; // Set by requireSignature and protectAuthEndpoint
+  }
+}
+
+const ENCRYPTION_NOT_CONFIGURED = 'Encrypted channels require an encryption master key';
+const AUTH_PROXY_UNAVAILABLE = 'Authorization service unavailable';
 
 class HttpServerManager {
   private server: FastifyInstance | null = null;
 
+  /**
+   * Check a request's bearer token (constant-time)
+   */
+  private hasBearerToken(request: FastifyRequest, token: string): boolean {
+    const provided = Buffer.from(request.headers.authorization ?? '');
+    const expected = Buffer.from(`Bearer ${token}`);
+    return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+  }
+
+  /**
+   * Resolve the app named by app_key, throttle auth endpoints per IP and require the app's token
+   * Throttling uses the app's own limits and comes before the token check, so token guessing
+   * is rate limited too. Tokens are per app so one app's backend can't get signatures for
+   * another's channels. With an auth proxy the upstream checks the caller instead, so the
+   * token is not required.
+   */
+  private protectAuthEndpoint = async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    // Clients of other apps identify themselves with app_key
+    const { app_key: appKey } = (request.body ?? {}) as { app_key?: unknown };
+    const app = appKey ? appManager.findByKey(String(appKey)) : appManager.getDefault();
+    if (!app) {
+      await reply.code(404).send({ error: 'App not found' });
+      return;
+    }
+
+    if (!appManager.getContext(app).rateLimiter.consumeAuth(request.ip)) {
+      await reply.code(429).send({ error: 'Too many requests' });
+      return;
+    }
+
+    if (app.authEndpointToken && !authProxy.isEnabled() && !this.hasBearerToken(request, app.authEndpointToken)) {
+      metrics.authFailures.inc({ type: 'endpoint' });
+      logger.warn({ ip: request.ip, path: request.url, appId: app.id }, 'Rejected auth request without a valid token');
+      await reply.code(401).send({ error: 'Unauthorized' });
+      return;
+    }
+
+    request.app = app;
+  };
+
+  /**
+   * Reject REST requests without a valid Pusher-style signature
+   */
+  private requireSignature = async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    const url = new URL(request.url, 'http://localhost');
+    const query = Object.fromEntries(url.searchParams.entries());
+    const { appId } = request.params as { appId?: string };
+
+    // App routes name their app; other signed routes are identified by auth_key
+    const app = appId ? appManager.findById(appId) : appManager.findByKey(query.auth_key ?? '');
+    if (!app) {
+      if (appId) {
+        await reply.code(404).send({ error: 'App not found' });
+      } else {
+        await reply.code(401).send({ error: 'Unauthorized', reason: 'Unknown auth_key' });
+      }
+      return;
+    }
+
+    const result = verifyRestRequest(
+      {
+        method: request.method,
+        path: url.pathname,
+        query,
+        body: request.rawBody,
+      },
+      app
+    );
+
+    if (!result.valid) {
+      logger.warn({ path: url.pathname, appId: app.id, reason: result.reason }, 'Rejected unsigned REST request');
+      await reply.code(401).send({ error: 'Unauthorized', reason: result.reason });
+      return;
+    }
+
+    request.app = app;
+  };
+
+  /**
+   * Build the attributes requested with ?info= for one channel
+   */
+  private describeChannel(
+    context: AppContext,
+    channelName: string,
+    info: ChannelInfoAttribute[]
+  ): ChannelAttributes {
+    const attributes: ChannelAttributes = {};
+
+    if (info.includes('user_count')) {
+      attributes.user_count = context.presence.getUserIds(channelName).length;
+    }
+    if (info.includes('subscription_count')) {
+      attributes.subscription_count = context.channels.getSubscriberCount(channelName);
+    }
+
+    return attributes;
+  }
+
+  /**
+   * Encrypted channels can only be published to when the app has a master key
+   */
+  private canPublishTo(app: App, channels: string[]): boolean {
+    return (
+      Boolean(app.encryptionMasterKey) ||
+      !channels.some((channelName) => getChannelType(channelName) === 'private-encrypted')
+    );
+  }
+
   /**
    * Initialize HTTP server
    */
   async initialize(): Promise<void> {
     this.server = fastify({
       logger: false, // We use pino directly
+      trustProxy: (address) => isTrustedProxy(address), // X-Forwarded-For only counts from TRUSTED_PROXIES
     });
 
+    // Keep the raw JSON body around - body_md5 in signed requests covers the exact bytes
+    this.server.removeContentTypeParser('application/json');
+    this.server.addContentTypeParser(
+      'application/json',
+      { parseAs: 'string' },
+      (request, body, done) => {
+        request.rawBody = body as string;
+        try {
+          done(null, body === '' ? undefined : JSON.parse(body as string));
+        } catch (error) {
+          (error as Error & { statusCode?: number }).statusCode = 400;
+          done(error as Error, undefined);
+        }
+      }
+    );
+
     // Health check endpoint
-    this.server.get('/health', async (request, reply) => {
+    this.server.get('/health', async (_request, reply) => {
       const stats = wsServer.getStats();
       return reply.code(200).send({
         status: 'ok',
@@ -31,8 +202,20 @@ class HttpServerManager {
       });
     });
 
+    // Prometheus metrics for this node (GET /metrics)
+    this.server.get('/metrics', async (request, reply) => {
+      if (config.metricsToken && !this.hasBearerToken(request, config.metricsToken)) {
+        return reply.code(401).send({ error: 'Unauthorized' });
+      }
+
+      return reply
+        .code(200)
+        .header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+        .send(metrics.render());
+    });
+
     // Authentication endpoint (POST /auth)
-    this.server.post('/auth', async (request, reply) => {
+    this.server.post('/auth', { preHandler: this.protectAuthEndpoint }, async (request, reply) => {
       try {
         // Validate request body
         const body = request.body as unknown;
@@ -46,10 +229,41 @@ class HttpServerManager {
           });
         }
 
-        const authRequest: AuthRequest = validated.data;
+        let authRequest: AuthRequest = validated.data;
+        const app = request.app!;
+
+        if (getChannelType(authRequest.channel_name) === 'private-encrypted' && !app.encryptionMasterKey) {
+          return reply.code(400).send({ error: ENCRYPTION_NOT_CONFIGURED });
+        }
+
+        // The upstream app decides, and names presence members itself
+        if (authProxy.isEnabled()) {
+          const answer = await authProxy.authorize(
+            {
+              type: 'channel',
+              app_id: app.id,
+              socket_id: authRequest.socket_id,
+              channel_name: authRequest.channel_name,
+            },
+            request.headers,
+            request.ip
+          );
+          if (!answer) {
+            return reply.code(503).send({ error: AUTH_PROXY_UNAVAILABLE });
+          }
+          if (!answer.allow) {
+            metrics.authFailures.inc({ type: 'proxy' });
+            return reply.code(403).send({ error: 'Forbidden' });
+          }
+
+          authRequest = {
+            ...authRequest,
+            channel_data: answer.channel_data ? JSON.stringify(answer.channel_data) : undefined,
+          };
+        }
 
         // Generate auth response
-        const authResponse = createAuthResponse(authRequest);
+        const authResponse = createAuthResponse(app, authRequest);
 
         logger.debug({ socketId: authRequest.socket_id, channel: authRequest.channel_name }, 'Auth request processed');
 
@@ -62,28 +276,393 @@ class HttpServerManager {
       }
     });
 
-    // Admin endpoint (optional - basic stats)
-    this.server.get('/admin/stats', async (request, reply) => {
-      // In production, add authentication here
-      const stats = wsServer.getStats();
+    // User authentication endpoint (POST /user-auth) - signs user_data for pusher:signin
+    this.server.post('/user-auth', { preHandler: this.protectAuthEndpoint }, async (request, reply) => {
+      try {
+        // With an auth proxy the upstream supplies user_data, so clients may leave it out
+        const schema = authProxy.isEnabled() ? delegatedUserAuthRequestSchema : userAuthRequestSchema;
+        const validated = schema.safeParse(request.body as unknown);
+
+        if (!validated.success) {
+          logger.debug({ errors: validated.error.errors }, 'Invalid user auth request');
+          return reply.code(400).send({
+            error: 'Invalid request',
+            details: validated.error.errors,
+          });
+        }
+
+        let userAuthRequest: UserAuthRequest = { ...validated.data, user_data: validated.data.user_data ?? '' };
+        const app = request.app!;
+
+        // The upstream app decides who the user is
+        if (authProxy.isEnabled()) {
+          const answer = await authProxy.authorize(
+            { type: 'user', app_id: app.id, socket_id: userAuthRequest.socket_id },
+            request.headers,
+            request.ip
+          );
+          if (!answer) {
+            return reply.code(503).send({ error: AUTH_PROXY_UNAVAILABLE });
+          }
+          if (!answer.allow || !answer.user_data) {
+            metrics.authFailures.inc({ type: 'proxy' });
+            return reply.code(403).send({ error: 'Forbidden' });
+          }
+
+          userAuthRequest = { ...userAuthRequest, user_data: JSON.stringify(answer.user_data) };
+        }
+
+        logger.debug({ socketId: userAuthRequest.socket_id }, 'User auth request processed');
+
+        return reply.code(200).send(createUserAuthResponse(app, userAuthRequest));
+      } catch (error) {
+        logger.error({ error }, 'Error processing user auth request');
+        return reply.code(500).send({
+          error: 'Internal server error',
+        });
+      }
+    });
+
+    // Publish endpoint (POST /apps/:appId/events) - server-originated events
+    this.server.post('/apps/:appId/events', { preHandler: this.requireSignature }, async (request, reply) => {
+      const app = request.app!;
+
+      try {
+        const validated = triggerEventSchema.safeParse(request.body as unknown);
+
+        if (!validated.success) {
+          logger.debug({ errors: validated.error.errors }, 'Invalid publish request');
+          return reply.code(400).send({
+            error: 'Invalid request',
+            details: validated.error.errors,
+          });
+        }
+
+        const event: TriggerEventRequest = validated.data;
+        const channels = event.channels ?? [event.channel!];
+
+        if (!this.canPublishTo(app, channels)) {
+          return reply.code(400).send({ error: ENCRYPTION_NOT_CONFIGURED });
+        }
+
+        const response: TriggerEventResponse = { channels: {} };
+        for (const channelName of new Set(channels)) {
+          const delivered = wsServer.broadcastServerEvent(
+            app,
+            channelName,
+            event.name,
+            event.data,
+            event.socket_id
+          );
+          response.channels[channelName] = { delivered };
+        }
+
+        logger.debug({ event: event.name, channels }, 'Server event published');
+
+        return reply.code(200).send(response);
+      } catch (error) {
+        logger.error({ error }, 'Error processing publish request');
+        return reply.code(500).send({
+          error: 'Internal server error',
+        });
+      }
+    });
+
+    // Batch publish endpoint (POST /apps/:appId/batch_events)
+    this.server.post('/apps/:appId/batch_events', { preHandler: this.requireSignature }, async (request, reply) => {
+      const app = request.app!;
+
+      try {
+        const validated = batchEventsSchema.safeParse(request.body as unknown);
+
+        if (!validated.success) {
+          logger.debug({ errors: validated.error.errors }, 'Invalid batch publish request');
+          return reply.code(400).send({
+            error: 'Invalid request',
+            details: validated.error.errors,
+          });
+        }
+
+        const response: BatchEventsResponse = { batch: [] };
+        for (const item of validated.data.batch) {
+          const parsed = batchEventSchema.safeParse(item);
+          if (!parsed.success) {
+            response.batch.push({
+              success: false,
+              error: 'Invalid event',
+              details: parsed.error.errors,
+            });
+            continue;
+          }
+
+          const event: BatchEvent = parsed.data;
+          if (!this.canPublishTo(app, [event.channel])) {
+            response.batch.push({ success: false, error: ENCRYPTION_NOT_CONFIGURED });
+            continue;
+          }
+
+          const delivered = wsServer.broadcastServerEvent(
+            app,
+            event.channel,
+            event.name,
+            event.data,
+            event.socket_id
+          );
+          response.batch.push({ success: true, channel: event.channel, delivered });
+        }
+
+        logger.debug({ size: response.batch.length }, 'Batch events published');
+
+        return reply.code(200).send(response);
+      } catch (error) {
+        logger.error({ error }, 'Error processing batch publish request');
+        return reply.code(500).send({
+          error: 'Internal server error',
+        });
+      }
+    });
+
+    // User events (POST /apps/:appId/users/:userId/events) - every socket signed in as the user
+    this.server.post('/apps/:appId/users/:userId/events', { preHandler: this.requireSignature }, async (request, reply) => {
+      const app = request.app!;
+
+      try {
+        const params = userParamsSchema.safeParse(request.params as unknown);
+        const validated = userEventSchema.safeParse(request.body as unknown);
+
+        if (!params.success || !validated.success) {
+          return reply.code(400).send({
+            error: 'Invalid request',
+            details: [...(params.error?.errors ?? []), ...(validated.error?.errors ?? [])],
+          });
+        }
+
+        const { userId } = params.data;
+        const event: UserEventRequest = validated.data;
+        const response: UserEventResponse = {
+          delivered: wsServer.sendToUser(app, userId, event.name, event.data),
+        };
+
+        logger.debug({ event: event.name, userId }, 'User event published');
+
+        return reply.code(200).send(response);
+      } catch (error) {
+        logger.error({ error }, 'Error processing user event request');
+        return reply.code(500).send({
+          error: 'Internal server error',
+        });
+      }
+    });
+
+    // Terminate user connections (POST /apps/:appId/users/:userId/terminate_connections)
+    this.server.post('/apps/:appId/users/:userId/terminate_connections', { preHandler: this.requireSignature }, async (request, reply) => {
+      const app = request.app!;
+
+      try {
+        const params = userParamsSchema.safeParse(request.params as unknown);
+
+        if (!params.success) {
+          return reply.code(400).send({
+            error: 'Invalid request',
+            details: params.error.errors,
+          });
+        }
+
+        const response: TerminateConnectionsResponse = {
+          terminated: wsServer.terminateUserConnections(app, params.data.userId),
+        };
+
+        return reply.code(200).send(response);
+      } catch (error) {
+        logger.error({ error }, 'Error processing terminate connections request');
+        return reply.code(500).send({
+          error: 'Internal server error',
+        });
+      }
+    });
+
+    // Channel list (GET /apps/:appId/channels) - occupied channels only
+    this.server.get('/apps/:appId/channels', { preHandler: this.requireSignature }, async (request, reply) => {
+      const app = request.app!;
+
+      try {
+        const validated = channelsQuerySchema.safeParse(request.query as unknown);
+
+        if (!validated.success) {
+          return reply.code(400).send({
+            error: 'Invalid request',
+            details: validated.error.errors,
+          });
+        }
+
+        const { filter_by_prefix: prefix, info } = validated.data;
+        const context = appManager.getContext(app);
+
+        const response: ChannelsResponse = { channels: {} };
+        for (const channelName of context.channels.getOccupiedChannels()) {
+          if (!prefix || channelName.startsWith(prefix)) {
+            response.channels[channelName] = this.describeChannel(context, channelName, info);
+          }
+        }
+
+        return reply.code(200).send(response);
+      } catch (error) {
+        logger.error({ error }, 'Error processing channel list request');
+        return reply.code(500).send({
+          error: 'Internal server error',
+        });
+      }
+    });
+
+    // Channel info (GET /apps/:appId/channels/:channelName)
+    this.server.get('/apps/:appId/channels/:channelName', { preHandler: this.requireSignature }, async (request, reply) => {
+      const app = request.app!;
+
+      try {
+        const params = channelParamsSchema.safeParse(request.params as unknown);
+        const query = channelQuerySchema.safeParse(request.query as unknown);
+
+        if (!params.success || !query.success) {
+          return reply.code(400).send({
+            error: 'Invalid request',
+            details: [...(params.error?.errors ?? []), ...(query.error?.errors ?? [])],
+          });
+        }
+
+        const { channelName } = params.data;
+        const { info } = query.data;
+
+        if (info.includes('user_count') && getChannelType(channelName) !== 'presence') {
+          return reply.code(400).send({
+            error: 'Invalid request',
+            details: 'user_count is only available for presence channels',
+          });
+        }
+
+        const context = appManager.getContext(app);
+        const occupied = context.channels.isOccupied(channelName);
+
+        const response: ChannelAttributes = {
+          occupied,
+          ...this.describeChannel(context, channelName, info),
+        };
+
+        return reply.code(200).send(response);
+      } catch (error) {
+        logger.error({ error }, 'Error processing channel info request');
+        return reply.code(500).send({
+          error: 'Internal server error',
+        });
+      }
+    });
+
+    // Presence users (GET /apps/:appId/channels/:channelName/users)
+    this.server.get('/apps/:appId/channels/:channelName/users', { preHandler: this.requireSignature }, async (request, reply) => {
+      const app = request.app!;
+
+      try {
+        const params = channelParamsSchema.safeParse(request.params as unknown);
+
+        if (!params.success) {
+          return reply.code(400).send({
+            error: 'Invalid request',
+            details: params.error.errors,
+          });
+        }
+
+        const { channelName } = params.data;
+
+        if (getChannelType(channelName) !== 'presence') {
+          return reply.code(400).send({
+            error: 'Invalid request',
+            details: 'Users are only available for presence channels',
+          });
+        }
+
+        const userIds = appManager.getContext(app).presence.getUserIds(channelName);
+        const response: ChannelUsersResponse = { users: userIds.map((id) => ({ id })) };
+
+        return reply.code(200).send(response);
+      } catch (error) {
+        logger.error({ error }, 'Error processing channel users request');
+        return reply.code(500).send({
+          error: 'Internal server error',
+        });
+      }
+    });
+
+    // Channel history (GET /apps/:appId/channels/:channelName/history) - oldest first
+    this.server.get('/apps/:appId/channels/:channelName/history', { preHandler: this.requireSignature }, async (request, reply) => {
+      const app = request.app!;
+
+      try {
+        const params = channelParamsSchema.safeParse(request.params as unknown);
+        const query = historyQuerySchema.safeParse(request.query as unknown);
+
+        if (!params.success || !query.success) {
+          return reply.code(400).send({
+            error: 'Invalid request',
+            details: [...(params.error?.errors ?? []), ...(query.error?.errors ?? [])],
+          });
+        }
+
+        const { history } = appManager.getContext(app);
+        if (!history.isEnabled()) {
+          return reply.code(400).send({
+            error: 'Invalid request',
+            details: 'History is not enabled',
+          });
+        }
+
+        const { since, limit } = query.data;
+        const { entries, complete } = history.getSince(params.data.channelName, since);
+
+        const response: ChannelHistoryResponse = {
+          events: entries.slice(0, limit).map((entry) => ({
+            seq: entry.seq,
+            event: entry.message.event,
+            data: entry.message.data,
+            user_id: entry.message.user_id,
+            time_ms: entry.timeMs,
+          })),
+          complete,
+        };
+
+        return reply.code(200).send(response);
+      } catch (error) {
+        logger.error({ error }, 'Error processing channel history request');
+        return reply.code(500).send({
+          error: 'Internal server error',
+        });
+      }
+    });
+
+    // Admin endpoint (basic stats, signed like the REST API)
+    this.server.get('/admin/stats', { preHandler: this.requireSignature }, async (request, reply) => {
+      // Scoped to the app whose key signed the request
+      const app = request.app!;
+      const stats = wsServer.getStats(app);
       return reply.code(200).send({
+        appId: app.id,
         ...stats,
         timestamp: new Date().toISOString(),
       });
     });
 
     // CORS headers (if needed)
-    this.server.addHook('onSend', async (request, reply) => {
+    this.server.addHook('onSend', async (_request, reply) => {
       reply.header('Access-Control-Allow-Origin', '*');
       reply.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
       reply.header('Access-Control-Allow-Headers', 'Content-Type');
     });
 
     // Handle OPTIONS for CORS
-    this.server.options('*', async (request, reply) => {
+    this.server.options('*', async (_request, reply) => {
       return reply.code(204).send();
     });
 
+    await this.server.ready();
+
     logger.info('HTTP server routes registered');
   }
 
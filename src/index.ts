@@ -5,6 +5,8 @@
 import { logger } from './utils/logger.js';
 import { httpServer } from './http/http-server.js';
 import { wsServer } from './ws/websocket-server.js';
+import { webhookSender } from './webhooks/webhook-sender.js';
+import { createAdapter } from './adapters/create-adapter.js';
 
 let isShuttingDown = false;
 
@@ -22,6 +24,7 @@ async function shutdown(signal: string): Promise<void> {
   try {
     await wsServer.shutdown();
     await httpServer.shutdown();
+    await webhookSender.shutdown();
     logger.info('Graceful shutdown completed');
     process.exit(0);
   } catch (error) {
@@ -38,8 +41,12 @@ async function start(): Promise<void> {
     // Initialize HTTP server
     await httpServer.initialize();
 
+    // Connect to the other nodes (in-memory when Redis is disabled)
+    const adapter = createAdapter();
+    await adapter.connect();
+
     // Initialize WebSocket server with HTTP server
-    wsServer.initialize(httpServer.getServer());
+    wsServer.initialize(httpServer.getServer(), adapter);
 
     // Start HTTP server (WebSocket server attaches to it)
     await httpServer.start();
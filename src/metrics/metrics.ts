@@ -0,0 +1,187 @@
+/**
+ * Prometheus metrics - counters, gauges and histograms in the text exposition format
+ * Counters and histograms are updated by instrumentation hooks as things happen;
+ * gauges are computed from live server state when /metrics is scraped.
+ */
+
+export type Labels = Record<string, string>;
+
+export interface Sample {
+  labels: Labels;
+  value: number;
+}
+
+const METRIC_PREFIX = 'realtime_';
+const DEFAULT_BUCKETS = [0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1]; // Seconds
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels).sort(([a], [b]) => a.localeCompare(b));
+  if (entries.length === 0) {
+    return '';
+  }
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+abstract class Metric {
+  readonly name: string;
+
+  constructor(name: string, private help: string, private type: 'counter' | 'gauge' | 'histogram') {
+    this.name = METRIC_PREFIX + name;
+  }
+
+  protected abstract lines(): string[];
+
+  render(): string {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.lines()].join('\n');
+  }
+}
+
+export class Counter extends Metric {
+  private values: Map<string, Sample> = new Map(); // Formatted labels -> sample
+
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = formatLabels(labels);
+    const sample = this.values.get(key);
+    if (sample) {
+      sample.value += value;
+    } else {
+      this.values.set(key, { labels, value });
+    }
+  }
+
+  /**
+   * Current value for a label set (0 when never incremented)
+   */
+  get(labels: Labels = {}): number {
+    return this.values.get(formatLabels(labels))?.value ?? 0;
+  }
+
+  protected lines(): string[] {
+    return Array.from(this.values, ([key, sample]) => `${this.name}${key} ${sample.value}`);
+  }
+}
+
+export class Gauge extends Metric {
+  private collector: () => Sample[] = () => [];
+
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  /**
+   * Set the function that reads the gauge's current samples at scrape time
+   */
+  collect(collector: () => Sample[]): void {
+    this.collector = collector;
+  }
+
+  protected lines(): string[] {
+    return this.collector().map((sample) => `${this.name}${formatLabels(sample.labels)} ${sample.value}`);
+  }
+}
+
+export class Histogram extends Metric {
+  private counts: number[]; // Per bucket, not cumulative; the last slot is +Inf
+  private sum = 0;
+  private count = 0;
+
+  constructor(name: string, help: string, private buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, 'histogram');
+    this.counts = new Array(buckets.length + 1).fill(0);
+  }
+
+  observe(value: number): void {
+    const index = this.buckets.findIndex((bound) => value <= bound);
+    this.counts[index === -1 ? this.buckets.length : index]++;
+    this.sum += value;
+    this.count++;
+  }
+
+  /**
+   * Time a synchronous function, observing its duration in seconds
+   */
+  time<T>(fn: () => T): T {
+    const start = process.hrtime.bigint();
+    try {
+      return fn();
+    } finally {
+      this.observe(Number(process.hrtime.bigint() - start) / 1e9);
+    }
+  }
+
+  protected lines(): string[] {
+    const lines: string[] = [];
+    let cumulative = 0;
+
+    this.buckets.forEach((bound, index) => {
+      cumulative += this.counts[index];
+      lines.push(`${this.name}_bucket{le="${bound}"} ${cumulative}`);
+    });
+    lines.push(`${this.name}_bucket{le="+Inf"} ${this.count}`);
+    lines.push(`${this.name}_sum ${this.sum}`);
+    lines.push(`${this.name}_count ${this.count}`);
+
+    return lines;
+  }
+}
+
+export class Metrics {
+  private registered: Metric[] = [];
+
+  readonly connectionsOpened = this.register(
+    new Counter('connections_opened_total', 'WebSocket connections opened')
+  );
+  readonly connectionsClosed = this.register(
+    new Counter('connections_closed_total', 'WebSocket connections closed, by close code')
+  );
+  readonly connections = this.register(
+    new Gauge('connections', 'Current WebSocket connections on this node, by app')
+  );
+  readonly subscriptions = this.register(
+    new Gauge('subscriptions', 'Current channel subscriptions on this node, by app and channel type')
+  );
+  readonly messagesReceived = this.register(
+    new Counter('messages_received_total', 'WebSocket messages received from clients')
+  );
+  readonly messagesSent = this.register(
+    new Counter('messages_sent_total', 'WebSocket messages sent to clients')
+  );
+  readonly bytesReceived = this.register(
+    new Counter('bytes_received_total', 'WebSocket payload bytes received from clients')
+  );
+  readonly bytesSent = this.register(
+    new Counter('bytes_sent_total', 'WebSocket payload bytes sent to clients')
+  );
+  readonly rateLimitRejections = this.register(
+    new Counter('rate_limit_rejections_total', 'Requests rejected by a rate limit, by limit')
+  );
+  readonly authFailures = this.register(
+    new Counter('auth_failures_total', 'Rejected channel and user authentication signatures, by type')
+  );
+  readonly broadcastFanout = this.register(
+    new Histogram('broadcast_fanout_seconds', 'Time to send a channel event to this node\'s subscribers')
+  );
+
+  /**
+   * Render every metric in the Prometheus text exposition format
+   */
+  render(): string {
+    return this.registered.map((metric) => metric.render()).join('\n') + '\n';
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.registered.push(metric);
+    return metric;
+  }
+}
+
+// Singleton instance
+export const metrics = new Metrics();
@@ -1,53 +1,215 @@
 /**
  * Presence management - tracks who is online in presence channels
- * Uses in-memory storage (can be extended with Redis)
+ * One instance per app. Members connected to other nodes are replicated in
+ * through the broadcast adapter and tagged with their node ID, so the whole
+ * cluster's members are visible and a dead node's members can be expired.
+ * Nodes also resend snapshots of their members, which replace what was
+ * replicated so far and repair any join or leave that got lost.
+ *
+ * Members are stored per socket but counted per user: a user with several
+ * sockets in a channel joins with the first and leaves with the last.
  */
 
 import { logger } from '../utils/logger.js';
 import type { PresenceMember, PresenceData } from '../types/index.js';
 
+interface PresenceEntry {
+  member: PresenceMember;
+  nodeId?: string; // Unset for members connected to this node
+}
+
 interface PresenceStore {
-  [channelName: string]: Map<string, PresenceMember>;
+  [channelName: string]: Map<string, PresenceEntry>; // socket ID -> entry
+}
+
+export interface PresenceRecord {
+  channelName: string;
+  socketId: string;
+  member: PresenceMember;
+}
+
+/**
+ * Notified when members join or leave presence channels
+ */
+export interface PresenceListener {
+  // Only called for users joining or leaving through this node
+  onMemberAdded(channelName: string, member: PresenceMember): void;
+  onMemberRemoved(channelName: string, member: PresenceMember): void;
 }
 
-class PresenceManager {
+export class PresenceManager {
   private store: PresenceStore = {};
 
+  constructor(private listener?: PresenceListener) {}
+
   /**
    * Add a member to a presence channel
+   * Pass nodeId for members replicated from another node.
+   * Returns true if this is the user's first socket in the channel.
    */
-  addMember(channelName: string, socketId: string, member: PresenceMember): void {
+  addMember(channelName: string, socketId: string, member: PresenceMember, nodeId?: string): boolean {
     if (!this.store[channelName]) {
       this.store[channelName] = new Map();
     }
-    
-    this.store[channelName].set(socketId, member);
-    logger.debug({ channelName, socketId, member }, 'Member added to presence channel');
+
+    const isNewUser = !this.hasUser(channelName, member.user_id);
+    this.store[channelName].set(socketId, { member, nodeId });
+    logger.debug({ channelName, socketId, member, nodeId, isNewUser }, 'Member added to presence channel');
+
+    if (isNewUser && !nodeId) {
+      this.listener?.onMemberAdded(channelName, member);
+    }
+
+    return isNewUser;
   }
 
   /**
    * Remove a member from a presence channel
+   * Returns true if that was the user's last socket in the channel.
    */
-  removeMember(channelName: string, socketId: string): void {
+  removeMember(channelName: string, socketId: string): boolean {
     const channel = this.store[channelName];
-    if (channel) {
-      channel.delete(socketId);
+    const entry = channel?.get(socketId);
+    if (!channel || !entry) {
+      return false;
+    }
+
+    channel.delete(socketId);
+    if (channel.size === 0) {
+      delete this.store[channelName];
+    }
+
+    const userLeft = !this.hasUser(channelName, entry.member.user_id);
+    logger.debug({ channelName, socketId, userLeft }, 'Member removed from presence channel');
+
+    if (userLeft && !entry.nodeId) {
+      this.listener?.onMemberRemoved(channelName, entry.member);
+    }
+
+    return userLeft;
+  }
+
+  /**
+   * Remove every member replicated from a node
+   * Returns one record per user that no longer has any socket in the channel.
+   */
+  removeNode(nodeId: string): PresenceRecord[] {
+    const removed = this.dropNode(nodeId);
+
+    if (removed.length > 0) {
+      logger.info({ nodeId, members: removed.length }, 'Expired presence members of departed node');
+    }
+
+    return removed;
+  }
+
+  /**
+   * Replace every member replicated from a node with a snapshot of its members
+   * Returns one record per user that joined or left a channel as a result.
+   */
+  replaceNode(nodeId: string, records: PresenceRecord[]): { added: PresenceRecord[]; removed: PresenceRecord[] } {
+    const key = (record: PresenceRecord) => `${record.channelName}\n${record.member.user_id}`;
+    const dropped = new Map(this.dropNode(nodeId).map((record) => [key(record), record]));
+
+    const added: PresenceRecord[] = [];
+    for (const record of records) {
+      // A user dropped and re-added by the snapshot never left
+      if (this.addMember(record.channelName, record.socketId, record.member, nodeId) && !dropped.delete(key(record))) {
+        added.push(record);
+      }
+    }
+
+    const removed = Array.from(dropped.values());
+    if (added.length > 0 || removed.length > 0) {
+      logger.info({ nodeId, added: added.length, removed: removed.length }, 'Presence snapshot changed replicated members');
+    }
+
+    return { added, removed };
+  }
+
+  private dropNode(nodeId: string): PresenceRecord[] {
+    const removed: PresenceRecord[] = [];
+
+    for (const [channelName, channel] of Object.entries(this.store)) {
+      const departed: Map<string, PresenceRecord> = new Map(); // user ID -> record
+      for (const [socketId, entry] of channel.entries()) {
+        if (entry.nodeId === nodeId) {
+          channel.delete(socketId);
+          departed.set(entry.member.user_id, { channelName, socketId, member: entry.member });
+        }
+      }
+
       if (channel.size === 0) {
         delete this.store[channelName];
       }
-      logger.debug({ channelName, socketId }, 'Member removed from presence channel');
+
+      for (const [userId, record] of departed) {
+        if (!this.hasUser(channelName, userId)) {
+          removed.push(record);
+        }
+      }
     }
+
+    return removed;
   }
 
   /**
-   * Get all members in a presence channel
+   * Get the members connected to this node (to share with other nodes)
+   */
+  getLocalMembers(): PresenceRecord[] {
+    const records: PresenceRecord[] = [];
+
+    for (const [channelName, channel] of Object.entries(this.store)) {
+      for (const [socketId, entry] of channel.entries()) {
+        if (!entry.nodeId) {
+          records.push({ channelName, socketId, member: entry.member });
+        }
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Get all members in a presence channel, one per user
    */
   getMembers(channelName: string): PresenceMember[] {
     const channel = this.store[channelName];
     if (!channel) {
       return [];
     }
-    return Array.from(channel.values());
+
+    const members: Map<string, PresenceMember> = new Map(); // user ID -> member
+    for (const { member } of channel.values()) {
+      if (!members.has(member.user_id)) {
+        members.set(member.user_id, member);
+      }
+    }
+    return Array.from(members.values());
+  }
+
+  /**
+   * Get the distinct user IDs in a presence channel
+   */
+  getUserIds(channelName: string): string[] {
+    return this.getMembers(channelName).map((member) => member.user_id);
+  }
+
+  /**
+   * Check if a user has any socket in a channel
+   */
+  hasUser(channelName: string, userId: string): boolean {
+    const channel = this.store[channelName];
+    if (!channel) {
+      return false;
+    }
+
+    for (const { member } of channel.values()) {
+      if (member.user_id === userId) {
+        return true;
+      }
+    }
+    return false;
   }
 
   /**
@@ -82,16 +244,14 @@ class PresenceManager {
    * Get member by socket ID
    */
   getMember(channelName: string, socketId: string): PresenceMember | undefined {
-    const channel = this.store[channelName];
-    return channel ? channel.get(socketId) : undefined;
+    return this.store[channelName]?.get(socketId)?.member;
   }
 
   /**
-   * Get member count for a channel
+   * Get the number of distinct users in a channel
    */
   getMemberCount(channelName: string): number {
-    const channel = this.store[channelName];
-    return channel ? channel.size : 0;
+    return this.getMembers(channelName).length;
   }
 
   /**
@@ -108,5 +268,3 @@ class PresenceManager {
     return Object.keys(this.store);
   }
 }
-
-export const presenceManager = new PresenceManager();
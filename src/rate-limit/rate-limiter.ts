@@ -1,10 +1,15 @@
 /**
  * Rate limiting using token bucket algorithm
+ * Each socket has one bucket per budget (subscribe attempts, pings and client events,
+ * optionally split by channel type), and each IP one for HTTP auth requests. A bucket
+ * holds up to its per-window limit and refills continuously, so the long-run rate is
+ * capped without a window boundary that would allow double bursts. Repeatedly
+ * exceeding a budget closes the connection.
  */
 
 import { logger } from '../utils/logger.js';
-import { config } from '../utils/config.js';
-import type { RateLimitConfig } from '../types/index.js';
+import { metrics } from '../metrics/metrics.js';
+import type { ChannelType, RateLimitConfig, RateLimitedAction } from '../types/index.js';
 
 interface TokenBucket {
   tokens: number;
@@ -13,25 +18,34 @@ interface TokenBucket {
   refillRate: number; // tokens per millisecond
 }
 
-interface ConnectionRateLimit {
-  messageCount: number;
+interface Violations {
+  count: number;
   windowStart: number;
 }
 
-class RateLimiter {
+// 'blocked' means the socket kept exceeding its budgets and should be disconnected
+export type RateLimitResult = 'allowed' | 'throttled' | 'blocked';
+
+export class RateLimiter {
+  private limits: RateLimitConfig;
   private connectionLimits: Map<string, number> = new Map(); // IP -> connection count
-  private messageBuckets: Map<string, TokenBucket> = new Map(); // socketId -> bucket
-  private connectionRateLimits: Map<string, ConnectionRateLimit> = new Map(); // socketId -> rate limit
+  private buckets: Map<string, Map<string, TokenBucket>> = new Map(); // socketId -> budget -> bucket
+  private violations: Map<string, Violations> = new Map(); // socketId -> throttled messages in the current window
+
+  constructor(limits: RateLimitConfig) {
+    this.limits = limits;
+  }
 
   /**
    * Check if IP can create new connection
    */
   canConnect(ip: string): boolean {
     const current = this.connectionLimits.get(ip) || 0;
-    const limit = config.rateLimit.connectionLimitPerIp;
+    const limit = this.limits.connectionLimitPerIp;
     
     if (current >= limit) {
       logger.warn({ ip, current, limit }, 'Connection limit exceeded for IP');
+      metrics.rateLimitRejections.inc({ limit: 'connection' });
       return false;
     }
     
@@ -60,68 +74,117 @@ class RateLimiter {
   }
 
   /**
-   * Check if socket can send message (rate limit)
+   * Take a token from the socket's budget for an action
+   * Client events use their channel type's budget when one is configured;
+   * HTTP budgets are keyed by "ip:<address>" instead of a socket ID
    */
-  canSendMessage(socketId: string): boolean {
+  consume(socketId: string, action: RateLimitedAction, channelType?: ChannelType): RateLimitResult {
     const now = Date.now();
-    const limit = this.connectionRateLimits.get(socketId);
-
-    if (!limit) {
-      // Initialize rate limit tracking
-      this.connectionRateLimits.set(socketId, {
-        messageCount: 1,
-        windowStart: now,
-      });
-      return true;
+    const { budget, capacity } = this.getBudget(action, channelType);
+
+    let sockets = this.buckets.get(socketId);
+    if (!sockets) {
+      sockets = new Map();
+      this.buckets.set(socketId, sockets);
     }
 
-    // Reset window if expired
-    if (now - limit.windowStart > config.rateLimit.messageRateWindowMs) {
-      limit.messageCount = 1;
-      limit.windowStart = now;
-      return true;
+    let bucket = sockets.get(budget);
+    if (!bucket) {
+      bucket = {
+        tokens: capacity,
+        lastRefill: now,
+        capacity,
+        refillRate: capacity / this.limits.messageRateWindowMs,
+      };
+      sockets.set(budget, bucket);
     }
 
-    // Check if limit exceeded
-    if (limit.messageCount >= config.rateLimit.messageRateLimit) {
-      logger.warn(
-        { socketId, count: limit.messageCount, limit: config.rateLimit.messageRateLimit },
-        'Message rate limit exceeded'
-      );
-      return false;
+    this.refill(bucket, now);
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 'allowed';
     }
 
-    limit.messageCount++;
-    return true;
+    metrics.rateLimitRejections.inc({ limit: action });
+    logger.warn({ socketId, budget, limit: capacity }, 'Rate limit exceeded');
+
+    return this.recordViolation(socketId, now) ? 'blocked' : 'throttled';
+  }
+
+  /**
+   * Take a token from an IP's budget for HTTP auth requests
+   */
+  consumeAuth(ip: string): boolean {
+    return this.consume(`ip:${ip}`, 'auth') === 'allowed';
   }
 
   /**
    * Clean up rate limit data for a socket
    */
   removeSocket(socketId: string): void {
-    this.messageBuckets.delete(socketId);
-    this.connectionRateLimits.delete(socketId);
+    this.buckets.delete(socketId);
+    this.violations.delete(socketId);
   }
 
   /**
    * Clean up old rate limit entries (periodic cleanup)
+   * Full buckets are dropped; they are recreated full on the next message
    */
   cleanup(): void {
     const now = Date.now();
-    const windowMs = config.rateLimit.messageRateWindowMs;
 
-    for (const [socketId, limit] of this.connectionRateLimits.entries()) {
-      if (now - limit.windowStart > windowMs * 2) {
-        // Remove entries older than 2 windows
-        this.connectionRateLimits.delete(socketId);
+    for (const [socketId, sockets] of this.buckets.entries()) {
+      for (const [budget, bucket] of sockets.entries()) {
+        this.refill(bucket, now);
+        if (bucket.tokens >= bucket.capacity) {
+          sockets.delete(budget);
+        }
+      }
+      if (sockets.size === 0) {
+        this.buckets.delete(socketId);
+      }
+    }
+
+    for (const [socketId, violations] of this.violations.entries()) {
+      if (now - violations.windowStart > this.limits.messageRateWindowMs) {
+        this.violations.delete(socketId);
       }
     }
   }
-}
 
-export const rateLimiter = new RateLimiter();
+  private getBudget(action: RateLimitedAction, channelType?: ChannelType): { budget: string; capacity: number } {
+    switch (action) {
+      case 'subscribe':
+        return { budget: action, capacity: this.limits.subscribeRateLimit };
+      case 'ping':
+        return { budget: action, capacity: this.limits.pingRateLimit };
+      case 'auth':
+        return { budget: action, capacity: this.limits.authRateLimit };
+      case 'client_event': {
+        const override = channelType ? this.limits.channelTypeRateLimits[channelType] : undefined;
+        return override
+          ? { budget: `${action}:${channelType}`, capacity: override }
+          : { budget: action, capacity: this.limits.messageRateLimit };
+      }
+    }
+  }
+
+  private refill(bucket: TokenBucket, now: number): void {
+    bucket.tokens = Math.min(bucket.capacity, bucket.tokens + (now - bucket.lastRefill) * bucket.refillRate);
+    bucket.lastRefill = now;
+  }
 
-// Periodic cleanup every 5 minutes
-setInterval(() => {
-  rateLimiter.cleanup();
-}, 5 * 60 * 1000);
+  /**
+   * Count a throttled message; returns true once the socket exceeds maxViolations in a window
+   */
+  private recordViolation(socketId: string, now: number): boolean {
+    let violations = this.violations.get(socketId);
+    if (!violations || now - violations.windowStart > this.limits.messageRateWindowMs) {
+      violations = { count: 0, windowStart: now };
+      this.violations.set(socketId, violations);
+    }
+
+    violations.count++;
+    return violations.count > this.limits.maxViolations;
+  }
+}
@@ -8,6 +8,8 @@ export interface WebSocketMessage {
   channel?: string;
   auth?: string;
   channel_data?: string;
+  user_id?: string; // Sender of a presence channel client event
+  seq?: number; // Per-channel sequence number, when history is enabled
 }
 
 export interface SubscribeMessage {
@@ -16,6 +18,15 @@ export interface SubscribeMessage {
     channel: string;
     auth?: string;
     channel_data?: string;
+    since?: number; // Replay history published after this seq
+  };
+}
+
+export interface SigninMessage {
+  event: 'pusher:signin';
+  data: {
+    auth: string;
+    user_data: string; // JSON-encoded UserData, signed by /user-auth
   };
 }
 
@@ -32,7 +43,7 @@ export interface ClientEventMessage {
   channel: string;
 }
 
-export type ChannelType = 'public' | 'private' | 'presence';
+export type ChannelType = 'public' | 'private' | 'private-encrypted' | 'presence';
 
 export interface ChannelInfo {
   name: string;
@@ -64,16 +75,175 @@ export interface AuthRequest {
   socket_id: string;
   channel_name: string;
   channel_data?: string;
+  app_key?: string; // Defaults to the first configured app
 }
 
 export interface AuthResponse {
   auth: string;
   channel_data?: string;
+  shared_secret?: string; // Base64, encrypted channels only
+}
+
+export interface UserData {
+  id: string;
+  user_info?: Record<string, unknown>;
+  watchlist?: string[]; // User IDs to receive online/offline events for
+}
+
+export interface WatchlistEvent {
+  name: 'online' | 'offline';
+  user_ids: string[];
+}
+
+export interface UserAuthRequest {
+  socket_id: string;
+  user_data: string;
+  app_key?: string; // Defaults to the first configured app
+}
+
+export interface JwtClaims {
+  exp: number; // Seconds since the epoch
+  nbf?: number;
+  iss?: string;
+  aud?: string | string[];
+  sub?: string; // Presence user_id when user_id is absent
+  app_id?: string; // Restricts the token to one app
+  channels: string[]; // Channel names; "*" matches any characters
+  user_id?: string;
+  user_info?: Record<string, unknown>;
+  socket_id?: string; // Binds the token to one connection
+}
+
+export type AuthProxyRequest =
+  | { type: 'channel'; app_id: string; socket_id: string; channel_name: string }
+  | { type: 'user'; app_id: string; socket_id: string };
+
+export interface AuthProxyResponse {
+  allow: boolean;
+  channel_data?: PresenceMember; // Required to allow presence channels
+  user_data?: UserData; // Required to allow user sign-in
+}
+
+export interface UserAuthResponse {
+  auth: string;
+  user_data: string;
+}
+
+export interface UserEventRequest {
+  name: string;
+  data: unknown;
+}
+
+export interface UserEventResponse {
+  delivered: number; // Sockets on this node
+}
+
+export interface TerminateConnectionsResponse {
+  terminated: number; // Sockets on this node
+}
+
+export interface TriggerEventRequest {
+  name: string;
+  data: unknown;
+  channels?: string[];
+  channel?: string;
+  socket_id?: string;
 }
 
+export interface ChannelPublishResult {
+  delivered: number;
+}
+
+export interface TriggerEventResponse {
+  channels: Record<string, ChannelPublishResult>;
+}
+
+export interface BatchEvent {
+  channel: string;
+  name: string;
+  data: unknown;
+  socket_id?: string;
+}
+
+export type BatchEventResult =
+  | { success: true; channel: string; delivered: number }
+  | { success: false; error: string; details?: unknown };
+
+export interface BatchEventsResponse {
+  batch: BatchEventResult[];
+}
+
+export type ChannelInfoAttribute = 'user_count' | 'subscription_count';
+
+export interface ChannelAttributes {
+  occupied?: boolean;
+  user_count?: number;
+  subscription_count?: number;
+}
+
+export interface ChannelsResponse {
+  channels: Record<string, ChannelAttributes>;
+}
+
+export interface HistoryEvent {
+  seq: number;
+  event: string;
+  data?: unknown;
+  user_id?: string;
+  time_ms: number;
+}
+
+export interface ChannelHistoryResponse {
+  events: HistoryEvent[];
+  complete: boolean;
+}
+
+export interface ChannelUsersResponse {
+  users: Array<{ id: string }>;
+}
+
+export type RateLimitedAction = 'subscribe' | 'client_event' | 'ping' | 'auth';
+
 export interface RateLimitConfig {
   connectionLimitPerIp: number;
   channelLimitPerConnection: number;
-  messageRateLimit: number;
-  messageRateWindowMs: number;
+  messageRateLimit: number; // Client events per window
+  messageRateWindowMs: number; // Time for an emptied budget to refill completely
+  subscribeRateLimit: number; // Subscribe attempts per window
+  pingRateLimit: number; // pusher:ping messages per window
+  authRateLimit: number; // POST /auth and /user-auth requests per IP per window
+  channelTypeRateLimits: Partial<Record<ChannelType, number>>; // Client events per window, by channel type
+  maxViolations: number; // Throttled messages per window before the connection is closed
+}
+
+export interface AppCredentials {
+  key: string;
+  secret: string;
+  encryptionMasterKey?: string; // Base64, 32 bytes; encrypted channels are unavailable when unset
+}
+
+export interface App extends AppCredentials {
+  id: string;
+  allowedOrigins: string[];
+  rateLimit: RateLimitConfig;
+  enableClientMessages: boolean;
+  webhookUrl?: string; // Lifecycle webhooks are disabled when unset
+  authEndpointToken?: string; // Bearer token for this app's /auth and /user-auth; open when unset
+}
+
+export type WebhookEvent =
+  | { name: 'channel_occupied' | 'channel_vacated' | 'cache_miss'; channel: string }
+  | { name: 'member_added' | 'member_removed'; channel: string; user_id: string }
+  | {
+      name: 'client_event';
+      channel: string;
+      event: string;
+      data: string;
+      socket_id: string;
+      user_id?: string;
+    };
+
+export interface WebhookPayload {
+  time_ms: number;
+  events: WebhookEvent[];
 }
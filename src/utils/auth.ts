@@ -3,43 +3,56 @@
  */
 
 import crypto from 'crypto';
-import { config } from './config.js';
 import { logger } from './logger.js';
-import type { AuthRequest, AuthResponse } from '../types/index.js';
+import { getChannelType } from './channel-utils.js';
+import { getSharedSecret } from './encryption.js';
+import { metrics } from '../metrics/metrics.js';
+import type {
+  AppCredentials,
+  AuthRequest,
+  AuthResponse,
+  UserAuthRequest,
+  UserAuthResponse,
+} from '../types/index.js';
 
 /**
  * Generate HMAC signature for channel authentication (Pusher-compatible)
- * Format: md5(socket_id:channel_name:secret) or sha256
+ * Signs "socket_id:channel_name", plus ":channel_data" for presence channels
  */
-function generateSignature(socketId: string, channelName: string, secret: string): string {
-  const stringToSign = `${socketId}:${channelName}`;
+function generateSignature(
+  socketId: string,
+  channelName: string,
+  secret: string,
+  channelData?: string
+): string {
+  const stringToSign = channelData
+    ? `${socketId}:${channelName}:${channelData}`
+    : `${socketId}:${channelName}`;
   const signature = crypto.createHmac('sha256', secret).update(stringToSign).digest('hex');
   return signature;
 }
 
 /**
- * Generate auth string in Pusher format: "key:signature"
- * For simplicity, we use the socket_id as the "key" part
+ * Generate HMAC signature for user authentication: signs "socket_id::user::user_data"
  */
-export function generateAuth(socketId: string, channelName: string): string {
-  const signature = generateSignature(socketId, channelName, config.authSecret);
-  return `${socketId}:${signature}`;
+function generateUserSignature(socketId: string, userData: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(`${socketId}::user::${userData}`).digest('hex');
 }
 
 /**
- * Verify authentication token
+ * Check an "app_key:signature" token against the expected signature
  */
-export function verifyAuth(auth: string, socketId: string, channelName: string): boolean {
+function verifyToken(app: AppCredentials, auth: string, expectedSignature: string): boolean {
   try {
-    const [providedSocketId, providedSignature] = auth.split(':');
-    
-    if (providedSocketId !== socketId) {
-      logger.debug({ providedSocketId, socketId }, 'Socket ID mismatch in auth');
+    const separator = auth.indexOf(':');
+    const providedKey = auth.slice(0, separator);
+    const providedSignature = auth.slice(separator + 1);
+
+    if (separator === -1 || providedKey !== app.key) {
+      logger.debug({ providedKey }, 'App key mismatch in auth');
       return false;
     }
 
-    const expectedSignature = generateSignature(socketId, channelName, config.authSecret);
-    
     // Use constant-time comparison to prevent timing attacks
     return crypto.timingSafeEqual(
       Buffer.from(providedSignature, 'hex'),
@@ -51,18 +64,92 @@ export function verifyAuth(auth: string, socketId: string, channelName: string):
   }
 }
 
+/**
+ * Generate auth string in Pusher format: "app_key:signature"
+ */
+export function generateAuth(
+  app: AppCredentials,
+  socketId: string,
+  channelName: string,
+  channelData?: string
+): string {
+  const signature = generateSignature(socketId, channelName, app.secret, channelData);
+  return `${app.key}:${signature}`;
+}
+
+/**
+ * Verify authentication token
+ * channelData must be the exact string sent in pusher:subscribe (presence channels)
+ */
+export function verifyAuth(
+  app: AppCredentials,
+  auth: string,
+  socketId: string,
+  channelName: string,
+  channelData?: string
+): boolean {
+  const valid = verifyToken(app, auth, generateSignature(socketId, channelName, app.secret, channelData));
+  if (!valid) {
+    metrics.authFailures.inc({ type: 'channel' });
+  }
+  return valid;
+}
+
+/**
+ * Generate user auth string for pusher:signin: "app_key:signature"
+ */
+export function generateUserAuth(app: AppCredentials, socketId: string, userData: string): string {
+  return `${app.key}:${generateUserSignature(socketId, userData, app.secret)}`;
+}
+
+/**
+ * Verify a pusher:signin token
+ * userData must be the exact string sent in pusher:signin
+ */
+export function verifyUserAuth(app: AppCredentials, auth: string, socketId: string, userData: string): boolean {
+  const valid = verifyToken(app, auth, generateUserSignature(socketId, userData, app.secret));
+  if (!valid) {
+    metrics.authFailures.inc({ type: 'user' });
+  }
+  return valid;
+}
+
 /**
  * Generate auth response for HTTP endpoint
+ * Throws for encrypted channels when the app has no encryption master key
  */
-export function createAuthResponse(request: AuthRequest): AuthResponse {
-  const auth = generateAuth(request.socket_id, request.channel_name);
+export function createAuthResponse(app: AppCredentials, request: AuthRequest): AuthResponse {
+  const channelType = getChannelType(request.channel_name);
+
+  // Only presence channels carry (and sign) channel_data
+  const channelData = channelType === 'presence' ? request.channel_data : undefined;
+  const auth = generateAuth(app, request.socket_id, request.channel_name, channelData);
   
   const response: AuthResponse = { auth };
   
-  // For presence channels, include channel_data if provided
-  if (request.channel_data) {
-    response.channel_data = request.channel_data;
+  // Return the signed channel_data verbatim - clients must send these exact bytes
+  if (channelData) {
+    response.channel_data = channelData;
+  }
+
+  // Encrypted channels hand the client its key for decrypting channel events
+  if (channelType === 'private-encrypted') {
+    if (!app.encryptionMasterKey) {
+      throw new Error('Encryption master key is not configured');
+    }
+    response.shared_secret = getSharedSecret(app.encryptionMasterKey, request.channel_name).toString('base64');
   }
   
   return response;
 }
+
+/**
+ * Generate user auth response for HTTP endpoint
+ */
+export function createUserAuthResponse(app: AppCredentials, request: UserAuthRequest): UserAuthResponse {
+  // Return the signed user_data verbatim - clients must send these exact bytes
+  return {
+    auth: generateUserAuth(app, request.socket_id, request.user_data),
+    user_data: request.user_data,
+  };
+}
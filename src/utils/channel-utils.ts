@@ -6,10 +6,14 @@ import type { ChannelType } from '../types/index.js';
 
 const CHANNEL_PREFIXES = {
   public: 'public-',
+  privateEncrypted: 'private-encrypted-',
   private: 'private-',
   presence: 'presence-',
 } as const;
 
+// Cache channels can be of any type: cache-, private-cache-, private-encrypted-cache-, presence-cache-
+const CACHE_CHANNEL_PATTERN = /^(private-encrypted-|private-|presence-)?cache-/;
+
 /**
  * Determine channel type from name
  */
@@ -17,6 +21,9 @@ export function getChannelType(channelName: string): ChannelType {
   if (channelName.startsWith(CHANNEL_PREFIXES.presence)) {
     return 'presence';
   }
+  if (channelName.startsWith(CHANNEL_PREFIXES.privateEncrypted)) {
+    return 'private-encrypted';
+  }
   if (channelName.startsWith(CHANNEL_PREFIXES.private)) {
     return 'private';
   }
@@ -32,8 +39,13 @@ export function isValidChannelName(channelName: string): boolean {
   }
   
   // Channel names should match pattern: type-name
-  // e.g., public-chat, private-user-123, presence-room-abc
-  const validPattern = /^(public|private|presence)-[a-zA-Z0-9_-]+$/;
+  // e.g., public-chat, cache-scores, private-user-123, private-encrypted-dm-1, presence-room-abc
+  const validPattern = /^(public|cache|private-encrypted|private|presence)-[a-zA-Z0-9_-]+$/;
+
+  // The longer private-encrypted- prefix must still be followed by a name
+  if (channelName === CHANNEL_PREFIXES.privateEncrypted) {
+    return false;
+  }
   return validPattern.test(channelName);
 }
 
@@ -42,5 +54,23 @@ export function isValidChannelName(channelName: string): boolean {
  */
 export function requiresAuth(channelName: string): boolean {
   const type = getChannelType(channelName);
-  return type === 'private' || type === 'presence';
+  return type !== 'public';
+}
+
+/**
+ * Match a channel name against a pattern where "*" stands for any characters
+ */
+export function matchesChannelPattern(pattern: string, channelName: string): boolean {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(channelName);
+}
+
+/**
+ * Check if channel remembers its last event for new subscribers
+ */
+export function isCacheChannel(channelName: string): boolean {
+  return CACHE_CHANNEL_PATTERN.test(channelName);
 }
@@ -0,0 +1,72 @@
+/**
+ * Client IP resolution behind reverse proxies
+ *
+ * X-Forwarded-For is set by whoever sends the request, so it is only believed for hops
+ * that come from a proxy listed in TRUSTED_PROXIES. With none listed, the socket address
+ * is the client IP and per-IP limits can't be dodged by sending the header.
+ */
+
+import net from 'net';
+import { config } from './config.js';
+
+let trusted: { entries: string[]; list: net.BlockList } | null = null;
+
+/**
+ * Build the TRUSTED_PROXIES block list once (again if the setting changes)
+ */
+function getTrustedProxies(): net.BlockList {
+  if (trusted?.entries === config.trustedProxies) {
+    return trusted.list;
+  }
+
+  const list = new net.BlockList();
+  for (const entry of config.trustedProxies) {
+    const [address, prefix] = entry.split('/');
+    const type = net.isIPv6(address) ? 'ipv6' : 'ipv4';
+    if (prefix === undefined) {
+      list.addAddress(address, type);
+    } else {
+      list.addSubnet(address, parseInt(prefix, 10), type);
+    }
+  }
+
+  trusted = { entries: config.trustedProxies, list };
+  return list;
+}
+
+/**
+ * Strip the IPv6 prefix Node gives IPv4 clients on dual-stack sockets
+ */
+function normalize(address: string): string {
+  return address.startsWith('::ffff:') && net.isIPv4(address.slice(7)) ? address.slice(7) : address;
+}
+
+/**
+ * Check whether an address is a configured reverse proxy
+ */
+export function isTrustedProxy(address: string): boolean {
+  const normalized = normalize(address);
+  const type = net.isIPv6(normalized) ? 'ipv6' : net.isIPv4(normalized) ? 'ipv4' : null;
+  return type !== null && getTrustedProxies().check(normalized, type);
+}
+
+/**
+ * Resolve the client IP: walk X-Forwarded-For from the nearest hop while hops are trusted
+ */
+export function getClientIp(remoteAddress: string | undefined, forwardedFor: string | string[] | undefined): string {
+  if (!remoteAddress) {
+    return 'unknown';
+  }
+
+  const hops = (Array.isArray(forwardedFor) ? forwardedFor.join(',') : forwardedFor ?? '')
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+
+  let address = normalize(remoteAddress);
+  while (hops.length > 0 && isTrustedProxy(address)) {
+    address = normalize(hops.pop()!);
+  }
+
+  return address;
+}
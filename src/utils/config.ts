@@ -2,18 +2,50 @@
  * Configuration management with environment variables
  */
 
+import net from 'net';
 import { logger } from './logger.js';
-import type { RateLimitConfig } from '../types/index.js';
+import { isValidMasterKey } from './encryption.js';
+import type { ChannelType, RateLimitConfig } from '../types/index.js';
 
 export interface Config {
   port: number;
+  appId: string;
+  appKey: string;
   authSecret: string;
+  restAuthMaxSkewSec: number;
+  appsFile: string;
   wsPath: string;
+  activityTimeout: number; // seconds
+  pongTimeout: number; // seconds
   allowedOrigins: string[];
+  enableClientMessages: boolean;
+  encryptionMasterKey: string; // Base64, 32 bytes
+  maxBatchSize: number;
+  cacheTtlSec: number;
+  historySize: number; // Events kept per channel; 0 disables history
+  historyTtlSec: number;
+  watchlistMaxSize: number;
+  metricsToken: string; // Bearer token for GET /metrics; open when unset
+  authEndpointToken: string; // Bearer token for the env-defined app's /auth and /user-auth; open when unset
+  authProxyUrl: string; // Upstream that decides /auth and /user-auth requests; unset signs locally
+  authProxyTimeoutMs: number;
+  authProxyCacheTtlSec: number; // 0 disables caching
+  trustedProxies: string[]; // IPs or CIDRs whose X-Forwarded-For is believed; none by default
+  jwtSecret: string; // HS256 key for subscribe JWTs
+  jwtJwksFile: string; // Path to a JWKS with RS256/ES256 public keys for subscribe JWTs
+  jwtIssuer: string; // Required iss claim, when set
+  jwtAudience: string; // Required aud claim, when set
+  webhookUrl: string;
+  webhookBatchMs: number;
+  webhookMaxRetries: number;
+  webhookRetryBaseMs: number;
   rateLimit: RateLimitConfig;
+  nodeHeartbeatMs: number;
+  nodeTimeoutMs: number;
   redis?: {
     url: string;
     enabled: boolean;
+    channel: string;
   };
 }
 
@@ -31,6 +63,48 @@ function parseNumber(value: string | undefined, defaultValue: number): number {
   return isNaN(parsed) ? defaultValue : parsed;
 }
 
+const CHANNEL_TYPES: ChannelType[] = ['public', 'private', 'private-encrypted', 'presence'];
+
+/**
+ * Parse "type=limit" pairs, e.g. "presence=20,private=200"
+ */
+function parseChannelTypeLimits(value: string | undefined): Partial<Record<ChannelType, number>> {
+  const limits: Partial<Record<ChannelType, number>> = {};
+
+  for (const pair of (value || '').split(',').filter((entry) => entry.trim())) {
+    const [type, limit] = pair.split('=').map((part) => part.trim());
+    const parsed = parseInt(limit, 10);
+
+    if (!CHANNEL_TYPES.includes(type as ChannelType) || !(parsed > 0)) {
+      logger.error({ entry: pair }, 'CHANNEL_TYPE_RATE_LIMITS entries must look like presence=20');
+      process.exit(1);
+    }
+    limits[type as ChannelType] = parsed;
+  }
+
+  return limits;
+}
+
+/**
+ * Parse a comma-separated list of IPs and CIDRs, e.g. "10.0.0.0/8,127.0.0.1"
+ */
+function parseAddressList(value: string | undefined): string[] {
+  const entries = (value || '').split(',').map((entry) => entry.trim()).filter(Boolean);
+
+  for (const entry of entries) {
+    const [address, prefix, ...rest] = entry.split('/');
+    const family = net.isIP(address);
+    const bits = prefix === undefined ? 0 : Number(prefix);
+
+    if (!family || rest.length > 0 || !Number.isInteger(bits) || bits < 0 || bits > (family === 4 ? 32 : 128)) {
+      logger.error({ entry }, 'TRUSTED_PROXIES entries must be IP addresses or CIDRs like 10.0.0.0/8');
+      process.exit(1);
+    }
+  }
+
+  return entries;
+}
+
 function parseBoolean(value: string | undefined, defaultValue: boolean): boolean {
   if (!value) return defaultValue;
   return value.toLowerCase() === 'true';
@@ -38,28 +112,72 @@ function parseBoolean(value: string | undefined, defaultValue: boolean): boolean
 
 export const config: Config = {
   port: parseNumber(process.env.PORT, 3000),
+  appId: getEnvVar('APP_ID', 'app'),
+  appKey: getEnvVar('APP_KEY', 'app-key'),
   authSecret: getEnvVar('AUTH_SECRET', 'change-me-in-production'),
+  restAuthMaxSkewSec: parseNumber(process.env.REST_AUTH_MAX_SKEW_SEC, 600),
+  appsFile: process.env.APPS_FILE || '',
   wsPath: process.env.WS_PATH || '/ws',
+  activityTimeout: parseNumber(process.env.ACTIVITY_TIMEOUT, 120),
+  pongTimeout: parseNumber(process.env.PONG_TIMEOUT, 30),
   allowedOrigins:
     process.env.ALLOWED_ORIGINS === '*'
       ? ['*']
       : (process.env.ALLOWED_ORIGINS || '*').split(',').map((o) => o.trim()),
+  enableClientMessages: parseBoolean(process.env.ENABLE_CLIENT_MESSAGES, false),
+  encryptionMasterKey: process.env.ENCRYPTION_MASTER_KEY_BASE64 || '',
+  maxBatchSize: parseNumber(process.env.MAX_BATCH_SIZE, 10),
+  cacheTtlSec: parseNumber(process.env.CACHE_TTL_SEC, 1800),
+  historySize: parseNumber(process.env.HISTORY_SIZE, 0),
+  historyTtlSec: parseNumber(process.env.HISTORY_TTL_SEC, 300),
+  watchlistMaxSize: parseNumber(process.env.WATCHLIST_MAX_SIZE, 100),
+  metricsToken: process.env.METRICS_TOKEN || '',
+  authEndpointToken: process.env.AUTH_ENDPOINT_TOKEN || '',
+  authProxyUrl: process.env.AUTH_PROXY_URL || '',
+  authProxyTimeoutMs: parseNumber(process.env.AUTH_PROXY_TIMEOUT_MS, 2000),
+  authProxyCacheTtlSec: parseNumber(process.env.AUTH_PROXY_CACHE_TTL_SEC, 30),
+  trustedProxies: parseAddressList(process.env.TRUSTED_PROXIES),
+  jwtSecret: process.env.JWT_SECRET || '',
+  jwtJwksFile: process.env.JWT_JWKS_FILE || '',
+  jwtIssuer: process.env.JWT_ISSUER || '',
+  jwtAudience: process.env.JWT_AUDIENCE || '',
+  webhookUrl: process.env.WEBHOOK_URL || '',
+  webhookBatchMs: parseNumber(process.env.WEBHOOK_BATCH_MS, 250),
+  webhookMaxRetries: parseNumber(process.env.WEBHOOK_MAX_RETRIES, 5),
+  webhookRetryBaseMs: parseNumber(process.env.WEBHOOK_RETRY_BASE_MS, 1000),
   rateLimit: {
     connectionLimitPerIp: parseNumber(process.env.CONNECTION_LIMIT_PER_IP, 10),
     channelLimitPerConnection: parseNumber(process.env.CHANNEL_LIMIT_PER_CONNECTION, 50),
     messageRateLimit: parseNumber(process.env.MESSAGE_RATE_LIMIT, 100),
     messageRateWindowMs: parseNumber(process.env.MESSAGE_RATE_WINDOW_MS, 60000),
+    subscribeRateLimit: parseNumber(process.env.SUBSCRIBE_RATE_LIMIT, 100),
+    pingRateLimit: parseNumber(process.env.PING_RATE_LIMIT, 30),
+    authRateLimit: parseNumber(process.env.AUTH_RATE_LIMIT, 300),
+    channelTypeRateLimits: parseChannelTypeLimits(process.env.CHANNEL_TYPE_RATE_LIMITS),
+    maxViolations: parseNumber(process.env.RATE_LIMIT_MAX_VIOLATIONS, 50),
   },
+  nodeHeartbeatMs: parseNumber(process.env.NODE_HEARTBEAT_MS, 5000),
+  nodeTimeoutMs: parseNumber(process.env.NODE_TIMEOUT_MS, 15000),
   redis: {
     url: getEnvVar('REDIS_URL', ''),
     enabled: parseBoolean(process.env.REDIS_ENABLED, false),
+    channel: process.env.REDIS_CHANNEL || 'realtime:broadcast',
   },
 };
 
-// Validate critical config
-if (config.authSecret === 'change-me-in-production' && process.env.NODE_ENV === 'production') {
+// Validate critical config (the env-defined app is unused when apps come from a file)
+if (!config.appsFile && config.authSecret === 'change-me-in-production' && process.env.NODE_ENV === 'production') {
   logger.error('AUTH_SECRET must be set in production!');
   process.exit(1);
 }
 
-logger.info({ config: { ...config, authSecret: '[REDACTED]' } }, 'Configuration loaded');
+if (config.historySize > 0 && config.redis?.enabled) {
+  logger.warn('HISTORY_SIZE is ignored with REDIS_ENABLED=true: message history only works on a single node');
+}
+
+if (config.encryptionMasterKey && !isValidMasterKey(config.encryptionMasterKey)) {
+  logger.error('ENCRYPTION_MASTER_KEY_BASE64 must be 32 bytes encoded as base64');
+  process.exit(1);
+}
+
+logger.info({ config: { ...config, authSecret: '[REDACTED]', encryptionMasterKey: '[REDACTED]', metricsToken: '[REDACTED]', authEndpointToken: '[REDACTED]', jwtSecret: '[REDACTED]' } }, 'Configuration loaded');
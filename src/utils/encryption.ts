@@ -0,0 +1,41 @@
+/**
+ * End-to-end encrypted channels (Pusher-compatible)
+ * Each private-encrypted- channel has a shared secret derived from the app's master key;
+ * server publishes are sealed with NaCl secretbox so only authorized clients can read them.
+ */
+
+import crypto from 'crypto';
+import nacl from 'tweetnacl';
+
+const MASTER_KEY_BYTES = 32;
+
+/**
+ * Check that a base64 master key decodes to exactly 32 bytes
+ */
+export function isValidMasterKey(masterKeyBase64: string): boolean {
+  return Buffer.from(masterKeyBase64, 'base64').length === MASTER_KEY_BYTES;
+}
+
+/**
+ * Derive a channel's shared secret: SHA-256(channel name + master key)
+ */
+export function getSharedSecret(masterKeyBase64: string, channelName: string): Buffer {
+  return crypto
+    .createHash('sha256')
+    .update(Buffer.concat([Buffer.from(channelName), Buffer.from(masterKeyBase64, 'base64')]))
+    .digest();
+}
+
+/**
+ * Encrypt event data for a channel; returns the JSON string clients expect as data
+ */
+export function encryptPayload(masterKeyBase64: string, channelName: string, data: unknown): string {
+  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+  const message = Buffer.from(JSON.stringify(data));
+  const ciphertext = nacl.secretbox(message, nonce, getSharedSecret(masterKeyBase64, channelName));
+
+  return JSON.stringify({
+    nonce: Buffer.from(nonce).toString('base64'),
+    ciphertext: Buffer.from(ciphertext).toString('base64'),
+  });
+}
@@ -0,0 +1,23 @@
+/**
+ * Pusher protocol error codes, sent in pusher:error messages and as close codes
+ *
+ * Pusher clients choose how to recover from the code's range:
+ * - 4000-4099: the connection is refused, do not reconnect
+ * - 4100-4199: reconnect after backing off
+ * - 4200-4299: reconnect immediately
+ * - 4300-4399: any other error (the connection stays open)
+ */
+
+export const ErrorCodes = {
+  APP_NOT_FOUND: 4001,
+  UNAUTHORIZED: 4009,
+  OVER_CAPACITY: 4100,
+  RECONNECT: 4200,
+  PONG_TIMEOUT: 4201,
+  INVALID_MESSAGE: 4300,
+  CLIENT_EVENT_RATE_LIMIT: 4301,
+  SUBSCRIPTION_LIMIT: 4302,
+  CLIENT_EVENT_REJECTED: 4303,
+} as const;
+
+export type ErrorCode = (typeof ErrorCodes)[keyof typeof ErrorCodes];
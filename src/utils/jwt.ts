@@ -0,0 +1,202 @@
+/**
+ * JWT channel authorization - an alternative to /auth signatures in pusher:subscribe
+ *
+ * A client may send a JWT as the subscribe `auth`. It is verified with JWT_SECRET
+ * (HS256) or a public key from the JWT_JWKS_FILE JWKS (RS256/ES256), and grants the
+ * channels its `channels` claim matches until `exp`. Presence members come from the
+ * user_id (or sub) and user_info claims, so clients don't send channel_data.
+ * Servers hosting several apps require tokens to carry the app_id they are for.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import { config } from './config.js';
+import { logger } from './logger.js';
+import { getChannelType, matchesChannelPattern } from './channel-utils.js';
+import { jwtClaimsSchema } from './validation.js';
+import { metrics } from '../metrics/metrics.js';
+import type { JwtClaims } from '../types/index.js';
+
+const JWT_PATTERN = /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/;
+
+interface JwtHeader {
+  alg?: string;
+  kid?: string;
+}
+
+export interface ChannelJwtOptions {
+  requireAppId?: boolean; // Reject tokens without app_id (the keys are shared by every app)
+}
+
+export interface ChannelGrant {
+  expiresAt: number; // Milliseconds since the epoch
+  channelData?: string; // Presence member as channel_data JSON
+}
+
+let jwks: { path: string; keys: crypto.JsonWebKey[] } | null = null;
+
+/**
+ * Check whether a subscribe auth is a JWT rather than an "app_key:signature" string
+ */
+export function isJwt(auth: string): boolean {
+  return JWT_PATTERN.test(auth);
+}
+
+/**
+ * Verify a token's signature and standard claims; returns its claims or null
+ */
+export function verifyJwt(token: string): JwtClaims | null {
+  try {
+    const [encodedHeader, encodedPayload, encodedSignature] = token.split('.');
+    const header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString()) as JwtHeader;
+    const signature = Buffer.from(encodedSignature, 'base64url');
+
+    if (!verifySignature(header, `${encodedHeader}.${encodedPayload}`, signature)) {
+      logger.debug({ alg: header.alg, kid: header.kid }, 'JWT signature rejected');
+      return null;
+    }
+
+    const validated = jwtClaimsSchema.safeParse(JSON.parse(Buffer.from(encodedPayload, 'base64url').toString()));
+    if (!validated.success) {
+      logger.debug({ errors: validated.error.errors }, 'JWT claims rejected');
+      return null;
+    }
+
+    const claims: JwtClaims = validated.data;
+    const nowSec = Date.now() / 1000;
+    const audiences = typeof claims.aud === 'string' ? [claims.aud] : claims.aud ?? [];
+
+    if (claims.exp <= nowSec || (claims.nbf !== undefined && claims.nbf > nowSec)) {
+      logger.debug({ exp: claims.exp, nbf: claims.nbf }, 'JWT not valid at this time');
+      return null;
+    }
+    if ((config.jwtIssuer && claims.iss !== config.jwtIssuer) || (config.jwtAudience && !audiences.includes(config.jwtAudience))) {
+      logger.debug({ iss: claims.iss, aud: claims.aud }, 'JWT issuer or audience rejected');
+      return null;
+    }
+
+    return claims;
+  } catch (error) {
+    logger.debug({ error }, 'Malformed JWT');
+    return null;
+  }
+}
+
+/**
+ * Check that a JWT grants a socket access to a channel
+ * Encrypted channels are never granted: their shared secret is only handed out by /auth
+ */
+export function verifyChannelJwt(
+  appId: string,
+  token: string,
+  socketId: string,
+  channelName: string,
+  options: ChannelJwtOptions = {}
+): ChannelGrant | null {
+  const grant = getChannelGrant(appId, token, socketId, channelName, options);
+  if (!grant) {
+    metrics.authFailures.inc({ type: 'jwt' });
+  }
+  return grant;
+}
+
+function getChannelGrant(
+  appId: string,
+  token: string,
+  socketId: string,
+  channelName: string,
+  options: ChannelJwtOptions
+): ChannelGrant | null {
+  const claims = verifyJwt(token);
+  if (!claims) {
+    return null;
+  }
+
+  const channelType = getChannelType(channelName);
+  if (
+    channelType === 'private-encrypted' ||
+    (claims.app_id === undefined ? options.requireAppId === true : claims.app_id !== appId) ||
+    (claims.socket_id !== undefined && claims.socket_id !== socketId) ||
+    !claims.channels.some((pattern) => matchesChannelPattern(pattern, channelName))
+  ) {
+    logger.debug({ channelName, socketId }, 'JWT does not grant channel');
+    return null;
+  }
+
+  const grant: ChannelGrant = { expiresAt: claims.exp * 1000 };
+  if (channelType === 'presence') {
+    const userId = claims.user_id ?? claims.sub;
+    if (!userId) {
+      logger.debug({ channelName }, 'JWT for presence channel has no user_id or sub');
+      return null;
+    }
+    grant.channelData = JSON.stringify({ user_id: userId, user_info: claims.user_info });
+  }
+
+  return grant;
+}
+
+function verifySignature(header: JwtHeader, signingInput: string, signature: Buffer): boolean {
+  switch (header.alg) {
+    case 'HS256': {
+      if (!config.jwtSecret) {
+        return false;
+      }
+      const expected = crypto.createHmac('sha256', config.jwtSecret).update(signingInput).digest();
+      return expected.length === signature.length && crypto.timingSafeEqual(expected, signature);
+    }
+
+    case 'RS256':
+    case 'ES256': {
+      const jwk = findKey(header.alg, header.kid);
+      if (!jwk) {
+        return false;
+      }
+      const key = crypto.createPublicKey({ key: jwk, format: 'jwk' });
+      // JWS carries ECDSA signatures as raw r||s rather than DER
+      const options = header.alg === 'ES256' ? { key, dsaEncoding: 'ieee-p1363' as const } : key;
+      return crypto.verify('sha256', Buffer.from(signingInput), options, signature);
+    }
+
+    default:
+      return false; // Includes "none"
+  }
+}
+
+/**
+ * Pick the JWKS key for a token: by kid when given, else the first key usable for alg
+ */
+function findKey(alg: 'RS256' | 'ES256', kid: string | undefined): crypto.JsonWebKey | undefined {
+  const kty = alg === 'RS256' ? 'RSA' : 'EC';
+
+  return loadJwks().find(
+    (key) =>
+      key.kty === kty &&
+      (key.alg === undefined || key.alg === alg) &&
+      (kid === undefined || key.kid === kid)
+  );
+}
+
+/**
+ * Read JWT_JWKS_FILE once (again if the setting changes); an unreadable file grants nothing
+ */
+function loadJwks(): crypto.JsonWebKey[] {
+  if (!config.jwtJwksFile) {
+    return [];
+  }
+  if (jwks?.path === config.jwtJwksFile) {
+    return jwks.keys;
+  }
+
+  let keys: crypto.JsonWebKey[] = [];
+  try {
+    const parsed = JSON.parse(fs.readFileSync(config.jwtJwksFile, 'utf8')) as { keys?: unknown };
+    keys = Array.isArray(parsed.keys) ? (parsed.keys as crypto.JsonWebKey[]) : [];
+    logger.info({ path: config.jwtJwksFile, keys: keys.length }, 'JWKS loaded');
+  } catch (error) {
+    logger.error({ error, path: config.jwtJwksFile }, 'Failed to load JWKS');
+  }
+
+  jwks = { path: config.jwtJwksFile, keys };
+  return keys;
+}
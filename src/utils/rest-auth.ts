@@ -0,0 +1,130 @@
+/**
+ * REST API request signing - Pusher-compatible auth_signature scheme
+ *
+ * Signed requests carry auth_key, auth_timestamp, auth_version, body_md5 (for
+ * requests with a body) and auth_signature as query parameters. The signature is
+ * HMAC-SHA256(secret, "METHOD\nPATH\nsorted_query") with auth_signature excluded.
+ */
+
+import crypto from 'crypto';
+import { config } from './config.js';
+import { logger } from './logger.js';
+import type { AppCredentials } from '../types/index.js';
+
+const AUTH_VERSION = '1.0';
+
+export interface RestRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body?: string;
+}
+
+export type RestAuthResult = { valid: true } | { valid: false; reason: string };
+
+/**
+ * MD5 hex digest of a request body
+ */
+function md5(body: string): string {
+  return crypto.createHash('md5').update(body, 'utf8').digest('hex');
+}
+
+/**
+ * Build the string to sign: method, path and query sorted by lowercase key
+ */
+function buildStringToSign(method: string, path: string, query: Record<string, string>): string {
+  const params: Record<string, string> = {};
+  for (const [key, value] of Object.entries(query)) {
+    if (key.toLowerCase() !== 'auth_signature') {
+      params[key.toLowerCase()] = value;
+    }
+  }
+
+  const queryString = Object.keys(params)
+    .sort()
+    .map((key) => `${key}=${params[key]}`)
+    .join('&');
+
+  return [method.toUpperCase(), path, queryString].join('\n');
+}
+
+function computeSignature(
+  method: string,
+  path: string,
+  query: Record<string, string>,
+  secret: string
+): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(buildStringToSign(method, path, query))
+    .digest('hex');
+}
+
+/**
+ * Sign a REST request, returning its query with the auth parameters added
+ */
+export function signRestRequest(
+  request: RestRequest,
+  credentials: AppCredentials,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Record<string, string> {
+  const query: Record<string, string> = {
+    ...request.query,
+    auth_key: credentials.key,
+    auth_timestamp: String(timestamp),
+    auth_version: AUTH_VERSION,
+  };
+
+  if (request.body) {
+    query.body_md5 = md5(request.body);
+  }
+
+  query.auth_signature = computeSignature(request.method, request.path, query, credentials.secret);
+  return query;
+}
+
+/**
+ * Verify a signed REST request
+ */
+export function verifyRestRequest(request: RestRequest, credentials: AppCredentials): RestAuthResult {
+  const { query } = request;
+
+  if (!query.auth_signature || !query.auth_key || !query.auth_timestamp) {
+    return { valid: false, reason: 'Missing auth parameters' };
+  }
+
+  if (query.auth_key !== credentials.key) {
+    return { valid: false, reason: 'Unknown auth_key' };
+  }
+
+  if (query.auth_version && query.auth_version !== AUTH_VERSION) {
+    return { valid: false, reason: 'Unsupported auth_version' };
+  }
+
+  const timestamp = Number(query.auth_timestamp);
+  const now = Math.floor(Date.now() / 1000);
+  if (!Number.isFinite(timestamp) || Math.abs(now - timestamp) > config.restAuthMaxSkewSec) {
+    return { valid: false, reason: 'Timestamp expired' };
+  }
+
+  if (request.body) {
+    if (!query.body_md5 || query.body_md5 !== md5(request.body)) {
+      return { valid: false, reason: 'Invalid body_md5' };
+    }
+  }
+
+  const expected = computeSignature(request.method, request.path, query, credentials.secret);
+
+  try {
+    // Use constant-time comparison to prevent timing attacks
+    const provided = Buffer.from(query.auth_signature, 'hex');
+    const matches =
+      provided.length === expected.length / 2 &&
+      crypto.timingSafeEqual(provided, Buffer.from(expected, 'hex'));
+
+    return matches ? { valid: true } : { valid: false, reason: 'Invalid signature' };
+  } catch (error) {
+    logger.debug({ error }, 'REST signature verification failed');
+    return { valid: false, reason: 'Invalid signature' };
+  }
+}
@@ -3,7 +3,23 @@
  */
 
 import { z } from 'zod';
-import type { WebSocketMessage, SubscribeMessage, UnsubscribeMessage, ClientEventMessage } from '../types/index.js';
+import { config } from './config.js';
+import { getChannelType, isValidChannelName } from './channel-utils.js';
+import { isValidMasterKey } from './encryption.js';
+import type {
+  WebSocketMessage,
+  SubscribeMessage,
+  UnsubscribeMessage,
+  ClientEventMessage,
+  SigninMessage,
+  UserData,
+} from '../types/index.js';
+
+const channelNameSchema = z
+  .string()
+  .min(1)
+  .max(200)
+  .refine(isValidChannelName, { message: 'Invalid channel name' });
 
 export const webSocketMessageSchema = z.object({
   event: z.string().min(1).max(200),
@@ -19,6 +35,7 @@ export const subscribeMessageSchema = z.object({
     channel: z.string().min(1).max(200),
     auth: z.string().optional(),
     channel_data: z.string().optional(),
+    since: z.number().int().nonnegative().optional(),
   }),
 });
 
@@ -29,6 +46,25 @@ export const unsubscribeMessageSchema = z.object({
   }),
 });
 
+export const userDataSchema = z.object({
+  id: z.string().min(1).max(200),
+  user_info: z.record(z.unknown()).optional(),
+  watchlist: z.array(z.string().min(1).max(200)).max(config.watchlistMaxSize).optional(),
+});
+
+// user_data travels as the exact JSON string that was signed
+const userDataStringSchema = z.string().min(1).refine((userData) => parseUserData(userData) !== null, {
+  message: 'user_data must be a JSON object with a string id',
+});
+
+export const signinMessageSchema = z.object({
+  event: z.literal('pusher:signin'),
+  data: z.object({
+    auth: z.string().min(1),
+    user_data: userDataStringSchema,
+  }),
+});
+
 export const clientEventMessageSchema = z.object({
   event: z.string().min(1).max(200),
   data: z.unknown(),
@@ -39,8 +75,166 @@ export const authRequestSchema = z.object({
   socket_id: z.string().min(1),
   channel_name: z.string().min(1).max(200),
   channel_data: z.string().optional(),
+  app_key: z.string().min(1).optional(),
+});
+
+// Answer of an AUTH_PROXY_URL upstream; presence identities and user_data come from here
+export const authProxyResponseSchema = z.object({
+  allow: z.boolean(),
+  channel_data: z
+    .object({
+      user_id: z.string().min(1).max(200),
+      user_info: z.record(z.unknown()).optional(),
+    })
+    .optional(),
+  user_data: userDataSchema.optional(),
+});
+
+// Claims of a JWT sent as the auth of pusher:subscribe; exp is required so access always ends
+export const jwtClaimsSchema = z.object({
+  exp: z.number(),
+  nbf: z.number().optional(),
+  iss: z.string().optional(),
+  aud: z.union([z.string(), z.array(z.string())]).optional(),
+  sub: z.string().optional(),
+  app_id: z.string().optional(),
+  channels: z.array(z.string().min(1).max(200)).min(1),
+  user_id: z.string().min(1).max(200).optional(),
+  user_info: z.record(z.unknown()).optional(),
+  socket_id: z.string().optional(),
+});
+
+export const userAuthRequestSchema = z.object({
+  socket_id: z.string().min(1),
+  user_data: userDataStringSchema,
+  app_key: z.string().min(1).optional(),
+});
+
+export const delegatedUserAuthRequestSchema = userAuthRequestSchema.extend({
+  user_data: userDataStringSchema.optional(),
+});
+
+export const userEventSchema = z.object({
+  name: z.string().min(1).max(200),
+  data: z.unknown().refine((data) => data !== undefined, { message: 'Required' }),
+});
+
+export const userParamsSchema = z.object({
+  userId: z.string().min(1).max(200),
+});
+
+export const triggerEventSchema = z
+  .object({
+    name: z.string().min(1).max(200),
+    data: z.unknown().refine((data) => data !== undefined, { message: 'Required' }),
+    channels: z.array(channelNameSchema).min(1).max(100).optional(),
+    channel: channelNameSchema.optional(),
+    socket_id: z.string().min(1).optional(),
+  })
+  .refine((body) => body.channels || body.channel, {
+    message: 'Either channels or channel is required',
+    path: ['channels'],
+  })
+  .refine(
+    (body) =>
+      !body.channels ||
+      body.channels.length === 1 ||
+      !body.channels.some((channel) => getChannelType(channel) === 'private-encrypted'),
+    { message: 'Cannot trigger to multiple channels when one is encrypted', path: ['channels'] }
+  );
+
+export const batchEventSchema = z.object({
+  channel: channelNameSchema,
+  name: z.string().min(1).max(200),
+  data: z.unknown().refine((data) => data !== undefined, { message: 'Required' }),
+  socket_id: z.string().min(1).optional(),
+});
+
+// Events are validated one by one so a bad entry doesn't fail the whole batch
+export const batchEventsSchema = z.object({
+  batch: z.array(z.unknown()).min(1).max(config.maxBatchSize),
 });
 
+// Comma-separated channel attributes requested with ?info=
+const channelInfoSchema = z
+  .string()
+  .optional()
+  .transform((info) => (info ? info.split(',').map((item) => item.trim()).filter(Boolean) : []))
+  .pipe(z.array(z.enum(['user_count', 'subscription_count'])));
+
+export const channelsQuerySchema = z
+  .object({
+    filter_by_prefix: z.string().optional(),
+    info: channelInfoSchema,
+  })
+  .refine((query) => !query.info.includes('user_count') || query.filter_by_prefix?.startsWith('presence-'), {
+    message: 'user_count requires filter_by_prefix=presence-',
+    path: ['info'],
+  });
+
+export const channelQuerySchema = z.object({
+  info: channelInfoSchema,
+});
+
+export const historyQuerySchema = z.object({
+  since: z.coerce.number().int().nonnegative().default(0),
+  limit: z.coerce.number().int().min(1).max(1000).optional(),
+});
+
+export const channelParamsSchema = z.object({
+  channelName: channelNameSchema,
+});
+
+const rateLimitOverridesSchema = z
+  .object({
+    connectionLimitPerIp: z.number().int().positive(),
+    channelLimitPerConnection: z.number().int().positive(),
+    messageRateLimit: z.number().int().positive(),
+    messageRateWindowMs: z.number().int().positive(),
+    subscribeRateLimit: z.number().int().positive(),
+    pingRateLimit: z.number().int().positive(),
+    authRateLimit: z.number().int().positive(),
+    channelTypeRateLimits: z
+      .object({
+        public: z.number().int().positive(),
+        private: z.number().int().positive(),
+        'private-encrypted': z.number().int().positive(),
+        presence: z.number().int().positive(),
+      })
+      .partial()
+      .strict(),
+    maxViolations: z.number().int().positive(),
+  })
+  .partial();
+
+export const appConfigSchema = z.object({
+  id: z.string().min(1),
+  key: z.string().min(1),
+  secret: z.string().min(1),
+  allowedOrigins: z.array(z.string().min(1)).optional(),
+  rateLimit: rateLimitOverridesSchema.optional(),
+  enableClientMessages: z.boolean().optional(),
+  webhookUrl: z.string().url().optional(),
+  authEndpointToken: z.string().min(1).optional(),
+  encryptionMasterKey: z
+    .string()
+    .refine(isValidMasterKey, { message: 'Must be 32 bytes encoded as base64' })
+    .optional(),
+});
+
+export const appsFileSchema = z
+  .object({
+    apps: z.array(appConfigSchema).min(1),
+  })
+  .superRefine(({ apps }, ctx) => {
+    for (const field of ['id', 'key'] as const) {
+      const values = apps.map((app) => app[field]);
+      if (new Set(values).size !== values.length) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate app ${field}`, path: ['apps'] });
+      }
+    }
+  });
+
 export function validateMessage(message: unknown): WebSocketMessage | null {
   try {
     return webSocketMessageSchema.parse(message) as WebSocketMessage;
@@ -65,6 +259,25 @@ export function validateUnsubscribe(message: WebSocketMessage): UnsubscribeMessa
   }
 }
 
+export function validateSignin(message: WebSocketMessage): SigninMessage | null {
+  try {
+    return signinMessageSchema.parse(message) as SigninMessage;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse signed user_data, or return null if it is not valid JSON with a user id
+ */
+export function parseUserData(userData: string): UserData | null {
+  try {
+    return userDataSchema.parse(JSON.parse(userData)) as UserData;
+  } catch {
+    return null;
+  }
+}
+
 export function validateClientEvent(message: WebSocketMessage): ClientEventMessage | null {
   try {
     return clientEventMessageSchema.parse(message) as ClientEventMessage;
@@ -0,0 +1,143 @@
+/**
+ * Watchlist management - tracks which signed-in users are online and who watches them
+ * One instance per app, independent of presence channels.
+ *
+ * A user is online while at least one socket anywhere in the cluster is signed in
+ * as them: sockets on other nodes are replicated in through the broadcast adapter
+ * and tagged with their node ID, like presence members. Watchers are the local
+ * sockets whose signed user_data listed the user in its watchlist.
+ */
+
+import { logger } from '../utils/logger.js';
+
+export interface OnlineRecord {
+  userId: string;
+  socketId: string;
+}
+
+export class WatchlistManager {
+  private online: Map<string, Map<string, string | undefined>> = new Map(); // user ID -> socket ID -> node ID (unset when local)
+  private watchers: Map<string, Set<string>> = new Map(); // watched user ID -> local socket IDs
+
+  /**
+   * Count a signed-in socket; returns true when the user comes online
+   */
+  addConnection(userId: string, socketId: string, nodeId?: string): boolean {
+    let sockets = this.online.get(userId);
+    if (!sockets) {
+      sockets = new Map();
+      this.online.set(userId, sockets);
+    }
+
+    const cameOnline = sockets.size === 0;
+    sockets.set(socketId, nodeId);
+    return cameOnline;
+  }
+
+  /**
+   * Stop counting a socket; returns true when it was the user's last one
+   */
+  removeConnection(userId: string, socketId: string): boolean {
+    const sockets = this.online.get(userId);
+    if (!sockets || !sockets.delete(socketId)) {
+      return false;
+    }
+
+    if (sockets.size === 0) {
+      this.online.delete(userId);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Drop every socket of a departed node; returns the users now offline
+   */
+  removeNode(nodeId: string): string[] {
+    const offline: string[] = [];
+
+    for (const [userId, sockets] of this.online.entries()) {
+      for (const [socketId, socketNodeId] of sockets.entries()) {
+        if (socketNodeId === nodeId) {
+          sockets.delete(socketId);
+        }
+      }
+
+      if (sockets.size === 0) {
+        this.online.delete(userId);
+        offline.push(userId);
+      }
+    }
+
+    if (offline.length > 0) {
+      logger.info({ nodeId, users: offline.length }, 'Expired online users of departed node');
+    }
+
+    return offline;
+  }
+
+  /**
+   * Get the signed-in sockets connected to this node (shared with other nodes)
+   */
+  getLocalConnections(): OnlineRecord[] {
+    const records: OnlineRecord[] = [];
+
+    for (const [userId, sockets] of this.online.entries()) {
+      for (const [socketId, nodeId] of sockets.entries()) {
+        if (!nodeId) {
+          records.push({ userId, socketId });
+        }
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Check if a user has a signed-in socket anywhere in the cluster
+   */
+  isOnline(userId: string): boolean {
+    return this.online.has(userId);
+  }
+
+  /**
+   * Start notifying a local socket about the given users
+   */
+  watch(socketId: string, userIds: string[]): void {
+    for (const userId of userIds) {
+      let sockets = this.watchers.get(userId);
+      if (!sockets) {
+        sockets = new Set();
+        this.watchers.set(userId, sockets);
+      }
+      sockets.add(socketId);
+    }
+  }
+
+  /**
+   * Stop notifying a local socket about the given users
+   */
+  unwatch(socketId: string, userIds: string[]): void {
+    for (const userId of userIds) {
+      const sockets = this.watchers.get(userId);
+      if (sockets?.delete(socketId) && sockets.size === 0) {
+        this.watchers.delete(userId);
+      }
+    }
+  }
+
+  /**
+   * Get the local sockets watching a user
+   */
+  getWatchers(userId: string): string[] {
+    return Array.from(this.watchers.get(userId) ?? []);
+  }
+
+  /**
+   * Clear all state (useful for testing)
+   */
+  clear(): void {
+    this.online.clear();
+    this.watchers.clear();
+  }
+}
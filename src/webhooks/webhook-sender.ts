@@ -0,0 +1,155 @@
+/**
+ * Outbound webhooks - Pusher-compatible lifecycle notifications
+ *
+ * Events are batched per app for WEBHOOK_BATCH_MS and POSTed as
+ * {"time_ms": ..., "events": [...]} with X-Pusher-Key and X-Pusher-Signature
+ * (HMAC-SHA256 of the body with the app secret). Failed deliveries are retried
+ * with exponential backoff.
+ */
+
+import crypto from 'crypto';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import type { ChannelListener } from '../channels/channel-manager.js';
+import type { PresenceListener } from '../presence/presence-manager.js';
+import type { App, AppCredentials, WebhookEvent, WebhookPayload } from '../types/index.js';
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+interface PendingBatch {
+  app: App;
+  events: WebhookEvent[];
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Sign a webhook body the way Pusher does (hex HMAC-SHA256 with the app secret)
+ */
+export function signWebhookBody(credentials: AppCredentials, body: string): string {
+  return crypto.createHmac('sha256', credentials.secret).update(body).digest('hex');
+}
+
+export class WebhookSender {
+  private batches: Map<string, PendingBatch> = new Map(); // app ID -> queued events
+  private retryTimers: Set<NodeJS.Timeout> = new Set();
+
+  /**
+   * Queue an event for the app's webhook URL (no-op when none is configured)
+   */
+  enqueue(app: App, event: WebhookEvent): void {
+    if (!app.webhookUrl) {
+      return;
+    }
+
+    let batch = this.batches.get(app.id);
+    if (!batch) {
+      const timer = setTimeout(() => {
+        void this.flush(app.id);
+      }, config.webhookBatchMs);
+      timer.unref();
+
+      batch = { app, events: [], timer };
+      this.batches.set(app.id, batch);
+    }
+
+    batch.events.push(event);
+  }
+
+  /**
+   * Send an app's queued events now
+   */
+  flush(appId: string): Promise<void> {
+    const batch = this.batches.get(appId);
+    if (!batch) {
+      return Promise.resolve();
+    }
+
+    clearTimeout(batch.timer);
+    this.batches.delete(appId);
+
+    const payload: WebhookPayload = { time_ms: Date.now(), events: batch.events };
+    return this.deliver(batch.app, JSON.stringify(payload), 0);
+  }
+
+  /**
+   * POST a signed payload, scheduling a retry with backoff on failure
+   */
+  private async deliver(app: App, body: string, attempt: number): Promise<void> {
+    const url = app.webhookUrl;
+    if (!url) {
+      return;
+    }
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Pusher-Key': app.key,
+          'X-Pusher-Signature': signWebhookBody(app, body),
+        },
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      await response.body?.cancel();
+
+      if (response.ok) {
+        logger.debug({ appId: app.id, attempt }, 'Webhook delivered');
+        return;
+      }
+
+      logger.warn({ appId: app.id, status: response.status, attempt }, 'Webhook rejected');
+    } catch (error) {
+      logger.warn({ error, appId: app.id, attempt }, 'Webhook delivery failed');
+    }
+
+    if (attempt >= config.webhookMaxRetries) {
+      logger.error({ appId: app.id, attempts: attempt + 1 }, 'Webhook dropped after retries');
+      return;
+    }
+
+    const delay = config.webhookRetryBaseMs * 2 ** attempt;
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(timer);
+      void this.deliver(app, body, attempt + 1);
+    }, delay);
+    timer.unref();
+    this.retryTimers.add(timer);
+  }
+
+  /**
+   * Flush queued events once and cancel pending retries
+   */
+  async shutdown(): Promise<void> {
+    for (const timer of this.retryTimers) {
+      clearTimeout(timer);
+    }
+    this.retryTimers.clear();
+
+    await Promise.all(Array.from(this.batches.keys()).map((appId) => this.flush(appId)));
+  }
+}
+
+export const webhookSender = new WebhookSender();
+
+/**
+ * Channel listener that reports channel_occupied/channel_vacated for an app
+ */
+export function channelWebhooks(app: App): ChannelListener {
+  return {
+    onChannelOccupied: (channel) => webhookSender.enqueue(app, { name: 'channel_occupied', channel }),
+    onChannelVacated: (channel) => webhookSender.enqueue(app, { name: 'channel_vacated', channel }),
+  };
+}
+
+/**
+ * Presence listener that reports member_added/member_removed for an app
+ */
+export function presenceWebhooks(app: App): PresenceListener {
+  return {
+    onMemberAdded: (channel, member) =>
+      webhookSender.enqueue(app, { name: 'member_added', channel, user_id: member.user_id }),
+    onMemberRemoved: (channel, member) =>
+      webhookSender.enqueue(app, { name: 'member_removed', channel, user_id: member.user_id }),
+  };
+}
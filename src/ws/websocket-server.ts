@@ -3,62 +3,94 @@
  * Handles connections, subscriptions, and message broadcasting
  */
 
+import crypto from 'crypto';
 import { WebSocketServer, WebSocket } from 'ws';
-import { createServer } from 'http';
-import { URL } from 'url';
+import { createServer, type IncomingMessage } from 'http';
 import { logger } from '../utils/logger.js';
 import { config } from '../utils/config.js';
-import { channelManager } from '../channels/channel-manager.js';
-import { presenceManager } from '../presence/presence-manager.js';
-import { rateLimiter } from '../rate-limit/rate-limiter.js';
-import { verifyAuth, generateAuth } from '../utils/auth.js';
+import { appManager, type AppContext, type AppManager } from '../apps/app-manager.js';
+import { verifyAuth, verifyUserAuth } from '../utils/auth.js';
+import { encryptPayload } from '../utils/encryption.js';
+import { isJwt, verifyChannelJwt, type ChannelGrant } from '../utils/jwt.js';
+import { getClientIp } from '../utils/client-ip.js';
+import { ErrorCodes, type ErrorCode } from '../utils/error-codes.js';
+import { webhookSender } from '../webhooks/webhook-sender.js';
+import { metrics, type Sample } from '../metrics/metrics.js';
+import { MemoryAdapter, type AdapterEnvelope, type BroadcastAdapter } from '../adapters/broadcast-adapter.js';
 import {
   validateMessage,
   validateSubscribe,
   validateUnsubscribe,
   validateClientEvent,
+  validateSignin,
+  parseUserData,
 } from '../utils/validation.js';
 import {
   getChannelType,
+  isCacheChannel,
   isValidChannelName,
   requiresAuth,
 } from '../utils/channel-utils.js';
+import type { ChannelCount } from '../channels/channel-manager.js';
+import type { PresenceRecord } from '../presence/presence-manager.js';
+import type { OnlineRecord } from '../watchlists/watchlist-manager.js';
 import type {
+  App,
+  ChannelType,
   WebSocketMessage,
-  Connection,
   PresenceMember,
+  RateLimitedAction,
+  UserData,
+  WatchlistEvent,
 } from '../types/index.js';
 
+type SocketAction = Exclude<RateLimitedAction, 'auth'>;
+
+const CLIENT_EVENT_PREFIX = 'client-';
+const SHUTDOWN_CLOSE_TIMEOUT_MS = 1000;
+const MAX_TIMER_MS = 2 ** 31 - 1; // Longer setTimeout delays fire immediately
+
+const RATE_LIMIT_MESSAGES: Record<SocketAction, string> = {
+  subscribe: 'Subscribe rate limit exceeded',
+  client_event: 'Rate limit exceeded',
+  ping: 'Ping rate limit exceeded',
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms).unref());
+}
+
 interface ClientConnection {
   socket: WebSocket;
   id: string;
+  context: AppContext;
   ip: string;
   channels: Set<string>;
   createdAt: number;
   lastActivity: number;
+  pingSentAt: number | null; // Set while waiting for a pong
+  user?: UserData; // Set by pusher:signin
+  expiryTimers: Map<string, NodeJS.Timeout>; // Channel -> revocation of a JWT-authorized subscription
 }
 
-class WebSocketServerManager {
+export class WebSocketServerManager {
   private wss: WebSocketServer | null = null;
+  private adapter: BroadcastAdapter = new MemoryAdapter();
   private connections: Map<string, ClientConnection> = new Map();
-  private httpServer: ReturnType<typeof createServer> | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private stateSyncTimer: NodeJS.Timeout | null = null;
 
-  /**
-   * Generate unique socket ID
-   */
-  private generateSocketId(): string {
-    return `${Date.now()}.${Math.random().toString(36).substring(2, 15)}`;
-  }
+  constructor(private apps: AppManager = appManager) {}
 
   /**
-   * Get client IP from request
+   * Generate unique socket ID in Pusher's "digits.digits" format
    */
-  private getClientIp(req: { headers: Record<string, string | string[] | undefined> }): string {
-    const forwarded = req.headers['x-forwarded-for'];
-    if (typeof forwarded === 'string') {
-      return forwarded.split(',')[0].trim();
-    }
-    return req.socket?.remoteAddress || 'unknown';
+  private generateSocketId(): string {
+    let socketId: string;
+    do {
+      socketId = `${crypto.randomInt(1, 2 ** 31)}.${crypto.randomInt(1, 2 ** 31)}`;
+    } while (this.connections.has(socketId));
+    return socketId;
   }
 
   /**
@@ -67,7 +99,10 @@ class WebSocketServerManager {
   private sendMessage(socket: WebSocket, message: WebSocketMessage): void {
     if (socket.readyState === WebSocket.OPEN) {
       try {
-        socket.send(JSON.stringify(message));
+        const payload = JSON.stringify(message);
+        socket.send(payload);
+        metrics.messagesSent.inc();
+        metrics.bytesSent.inc({}, Buffer.byteLength(payload));
       } catch (error) {
         logger.error({ error }, 'Failed to send message to client');
       }
@@ -75,41 +110,70 @@ class WebSocketServerManager {
   }
 
   /**
-   * Send error message to client
+   * Send a pusher:error message to client
    */
-  private sendError(socket: WebSocket, error: string, event?: string): void {
+  private sendError(socket: WebSocket, code: ErrorCode, message: string): void {
     this.sendMessage(socket, {
-      event: event || 'pusher:error',
-      data: { message: error },
+      event: 'pusher:error',
+      data: { code, message },
     });
   }
 
+  /**
+   * Take a token from one of the connection's rate limit budgets
+   * Throttled messages are answered with an error; connections that keep going are closed
+   */
+  private checkRateLimit(conn: ClientConnection, action: SocketAction, channelType?: ChannelType): boolean {
+    const result = conn.context.rateLimiter.consume(conn.id, action, channelType);
+
+    if (result === 'blocked') {
+      logger.warn({ socketId: conn.id, ip: conn.ip, action }, 'Closing connection after repeated rate limit violations');
+      conn.socket.close(ErrorCodes.OVER_CAPACITY, 'Rate limit exceeded repeatedly');
+      return false;
+    }
+    if (result === 'throttled') {
+      this.sendError(conn.socket, ErrorCodes.CLIENT_EVENT_RATE_LIMIT, RATE_LIMIT_MESSAGES[action]);
+      return false;
+    }
+
+    return true;
+  }
+
   /**
    * Handle subscription request
    */
   private handleSubscribe(conn: ClientConnection, message: WebSocketMessage): void {
+    if (!this.checkRateLimit(conn, 'subscribe')) {
+      return;
+    }
+
     const subscribeMsg = validateSubscribe(message);
     if (!subscribeMsg) {
-      this.sendError(conn.socket, 'Invalid subscribe message format');
+      this.sendError(conn.socket, ErrorCodes.INVALID_MESSAGE, 'Invalid subscribe message format');
       return;
     }
 
-    const { channel: channelName, auth, channel_data } = subscribeMsg.data;
+    const { channel: channelName, auth, channel_data, since } = subscribeMsg.data;
 
     // Validate channel name
     if (!isValidChannelName(channelName)) {
-      this.sendError(conn.socket, `Invalid channel name: ${channelName}`);
-      return;
-    }
-
-    // Check channel limit
-    if (conn.channels.size >= config.rateLimit.channelLimitPerConnection) {
-      this.sendError(conn.socket, 'Channel limit exceeded');
+      this.sendError(conn.socket, ErrorCodes.INVALID_MESSAGE, `Invalid channel name: ${channelName}`);
       return;
     }
 
     // Check if already subscribed
     if (conn.channels.has(channelName)) {
+      // A fresh JWT renews a subscription that would otherwise expire
+      if (conn.expiryTimers.has(channelName) && auth && isJwt(auth)) {
+        const grant = this.verifyChannelToken(conn, auth, channelName);
+        if (!grant) {
+          this.sendError(conn.socket, ErrorCodes.UNAUTHORIZED, 'Authentication failed');
+          return;
+        }
+        clearTimeout(conn.expiryTimers.get(channelName));
+        this.scheduleExpiry(conn, channelName, grant.expiresAt);
+      }
+
       logger.debug({ socketId: conn.id, channelName }, 'Already subscribed to channel');
       this.sendMessage(conn.socket, {
         event: 'pusher_internal:subscription_succeeded',
@@ -119,22 +183,45 @@ class WebSocketServerManager {
       return;
     }
 
+    // Check channel limit (renewals above don't add a channel)
+    if (conn.channels.size >= conn.context.app.rateLimit.channelLimitPerConnection) {
+      metrics.rateLimitRejections.inc({ limit: 'channel' });
+      this.sendError(conn.socket, ErrorCodes.SUBSCRIPTION_LIMIT, 'Channel limit exceeded');
+      return;
+    }
+
     // Authenticate for private/presence channels
+    let memberData = channel_data;
+    let expiresAt: number | undefined;
     if (requiresAuth(channelName)) {
       if (!auth) {
-        this.sendError(conn.socket, 'Authentication required for this channel');
+        this.sendError(conn.socket, ErrorCodes.UNAUTHORIZED, 'Authentication required for this channel');
         return;
       }
 
-      if (!verifyAuth(auth, conn.id, channelName)) {
-        this.sendError(conn.socket, 'Authentication failed');
-        return;
+      if (isJwt(auth)) {
+        // JWT claims name the presence member, so client channel_data is ignored
+        const grant = this.verifyChannelToken(conn, auth, channelName);
+        if (!grant) {
+          this.sendError(conn.socket, ErrorCodes.UNAUTHORIZED, 'Authentication failed');
+          return;
+        }
+        memberData = grant.channelData;
+        expiresAt = grant.expiresAt;
+      } else {
+        // Presence channel_data is part of the signature so user_id/user_info can't be forged
+        const signedChannelData = getChannelType(channelName) === 'presence' ? channel_data : undefined;
+        if (!verifyAuth(conn.context.app, auth, conn.id, channelName, signedChannelData)) {
+          this.sendError(conn.socket, ErrorCodes.UNAUTHORIZED, 'Authentication failed');
+          return;
+        }
       }
     }
 
     // Subscribe to channel
-    channelManager.subscribe(channelName, conn.id);
+    conn.context.channels.subscribe(channelName, conn.id);
     conn.channels.add(channelName);
+    this.publishChannelCount(conn.context, channelName);
 
     // Handle presence channel
     const channelType = getChannelType(channelName);
@@ -142,8 +229,8 @@ class WebSocketServerManager {
       try {
         // Parse channel_data for presence member info
         let member: PresenceMember;
-        if (channel_data) {
-          const parsed = JSON.parse(channel_data);
+        if (memberData) {
+          const parsed = JSON.parse(memberData);
           member = {
             user_id: parsed.user_id || conn.id,
             user_info: parsed.user_info || {},
@@ -156,10 +243,17 @@ class WebSocketServerManager {
         }
 
         // Add to presence
-        presenceManager.addMember(channelName, conn.id, member);
+        const isNewUser = conn.context.presence.addMember(channelName, conn.id, member);
+        this.adapter.publish({
+          type: 'presence_join',
+          appId: conn.context.app.id,
+          channel: channelName,
+          socketId: conn.id,
+          member,
+        });
 
         // Get presence data
-        const presenceData = presenceManager.getPresenceData(channelName);
+        const presenceData = conn.context.presence.getPresenceData(channelName);
 
         // Send subscription success with presence data
         this.sendMessage(conn.socket, {
@@ -168,15 +262,17 @@ class WebSocketServerManager {
           channel: channelName,
         });
 
-        // Broadcast member added event to other subscribers
-        this.broadcastToChannel(channelName, {
-          event: 'pusher_internal:member_added',
-          data: { user_id: member.user_id, user_info: member.user_info },
-          channel: channelName,
-        }, conn.id);
+        // Broadcast member added event to other subscribers (not for the user's extra sockets)
+        if (isNewUser) {
+          this.broadcastToChannel(conn.context, channelName, {
+            event: 'pusher_internal:member_added',
+            data: { user_id: member.user_id, user_info: member.user_info },
+            channel: channelName,
+          }, conn.id);
+        }
       } catch (error) {
-        logger.error({ error, channel_data }, 'Failed to parse presence channel_data');
-        this.sendError(conn.socket, 'Invalid channel_data for presence channel');
+        logger.error({ error, channel_data: memberData }, 'Failed to parse presence channel_data');
+        this.sendError(conn.socket, ErrorCodes.INVALID_MESSAGE, 'Invalid channel_data for presence channel');
         return;
       }
     } else {
@@ -188,16 +284,66 @@ class WebSocketServerManager {
       });
     }
 
+    if (expiresAt !== undefined) {
+      this.scheduleExpiry(conn, channelName, expiresAt);
+    }
+
+    // Missed events replace the cached one: the last of them is the latest state
+    if (since !== undefined && conn.context.history.isEnabled()) {
+      this.replayHistory(conn, channelName, since);
+    } else if (isCacheChannel(channelName)) {
+      this.sendCachedEvent(conn, channelName);
+    }
+
     logger.info({ socketId: conn.id, channelName, type: channelType }, 'Client subscribed to channel');
   }
 
+  /**
+   * Send a resubscribing client the events it missed since `since`
+   * A history_gap notice comes first when some of them are no longer buffered
+   */
+  private replayHistory(conn: ClientConnection, channelName: string, since: number): void {
+    const { entries, complete } = conn.context.history.getSince(channelName, since);
+
+    if (!complete) {
+      this.sendMessage(conn.socket, {
+        event: 'pusher:history_gap',
+        data: { since },
+        channel: channelName,
+      });
+    }
+
+    for (const entry of entries) {
+      this.sendMessage(conn.socket, entry.message);
+    }
+
+    logger.debug({ socketId: conn.id, channelName, since, replayed: entries.length, complete }, 'History replayed');
+  }
+
+  /**
+   * Replay a cache channel's last event to a new subscriber, or report a cache miss
+   */
+  private sendCachedEvent(conn: ClientConnection, channelName: string): void {
+    const cached = conn.context.channels.getCachedEvent(channelName);
+    if (cached) {
+      this.sendMessage(conn.socket, cached);
+      return;
+    }
+
+    this.sendMessage(conn.socket, {
+      event: 'pusher:cache_miss',
+      channel: channelName,
+    });
+    webhookSender.enqueue(conn.context.app, { name: 'cache_miss', channel: channelName });
+  }
+
   /**
    * Handle unsubscribe request
    */
   private handleUnsubscribe(conn: ClientConnection, message: WebSocketMessage): void {
     const unsubscribeMsg = validateUnsubscribe(message);
     if (!unsubscribeMsg) {
-      this.sendError(conn.socket, 'Invalid unsubscribe message format');
+      this.sendError(conn.socket, ErrorCodes.INVALID_MESSAGE, 'Invalid unsubscribe message format');
       return;
     }
 
@@ -208,115 +354,393 @@ class WebSocketServerManager {
       return;
     }
 
-    // Unsubscribe
-    channelManager.unsubscribe(channelName, conn.id);
+    this.unsubscribe(conn, channelName);
+
+    logger.info({ socketId: conn.id, channelName }, 'Client unsubscribed from channel');
+  }
+
+  /**
+   * Remove a socket from a channel it is subscribed to
+   */
+  private unsubscribe(conn: ClientConnection, channelName: string): void {
+    clearTimeout(conn.expiryTimers.get(channelName));
+    conn.expiryTimers.delete(channelName);
+
+    conn.context.channels.unsubscribe(channelName, conn.id);
     conn.channels.delete(channelName);
+    this.publishChannelCount(conn.context, channelName);
 
     // Handle presence channel member removal
-    const channelType = getChannelType(channelName);
-    if (channelType === 'presence' && presenceManager.hasMember(channelName, conn.id)) {
-      // Get member data before removing (we need user_id for broadcast)
-      const member = presenceManager.getMember(channelName, conn.id);
-      
-      if (member) {
-        presenceManager.removeMember(channelName, conn.id);
-        
-        // Broadcast member removed event
-        this.broadcastToChannel(channelName, {
-          event: 'pusher_internal:member_removed',
-          data: { user_id: member.user_id },
-          channel: channelName,
-        });
-      } else {
-        // Still remove even if member data not found
-        presenceManager.removeMember(channelName, conn.id);
+    this.leavePresenceChannel(conn, channelName);
+  }
+
+  /**
+   * Check a subscribe JWT for a connection's app
+   * JWT keys are shared by every app, so with several apps a token must name its app
+   */
+  private verifyChannelToken(conn: ClientConnection, token: string, channelName: string): ChannelGrant | null {
+    return verifyChannelJwt(conn.context.app.id, token, conn.id, channelName, {
+      requireAppId: this.apps.getAll().length > 1,
+    });
+  }
+
+  /**
+   * Revoke a JWT-authorized subscription when its token expires
+   * The client is told with pusher:subscription_expired and can resubscribe with a fresh token
+   */
+  private scheduleExpiry(conn: ClientConnection, channelName: string, expiresAt: number): void {
+    const timer = setTimeout(() => {
+      if (Date.now() < expiresAt) {
+        this.scheduleExpiry(conn, channelName, expiresAt);
+        return;
       }
+
+      this.unsubscribe(conn, channelName);
+      this.sendMessage(conn.socket, {
+        event: 'pusher:subscription_expired',
+        data: {},
+        channel: channelName,
+      });
+      logger.info({ socketId: conn.id, channelName }, 'Subscription revoked, token expired');
+    }, Math.min(Math.max(expiresAt - Date.now(), 0), MAX_TIMER_MS));
+    timer.unref();
+
+    conn.expiryTimers.set(channelName, timer);
+  }
+
+  /**
+   * Remove a socket's presence member and tell the channel (no-op for other channel types)
+   */
+  private leavePresenceChannel(conn: ClientConnection, channelName: string): void {
+    if (getChannelType(channelName) !== 'presence') {
+      return;
     }
 
-    logger.info({ socketId: conn.id, channelName }, 'Client unsubscribed from channel');
+    // Get member data before removing (we need user_id for broadcast)
+    const member = conn.context.presence.getMember(channelName, conn.id);
+    if (!member) {
+      return;
+    }
+
+    const userLeft = conn.context.presence.removeMember(channelName, conn.id);
+    this.adapter.publish({
+      type: 'presence_leave',
+      appId: conn.context.app.id,
+      channel: channelName,
+      socketId: conn.id,
+    });
+
+    // The user is still online while any of their other sockets remain
+    if (!userLeft) {
+      return;
+    }
+
+    // Broadcast member removed event
+    this.broadcastToChannel(conn.context, channelName, {
+      event: 'pusher_internal:member_removed',
+      data: { user_id: member.user_id },
+      channel: channelName,
+    });
+  }
+
+  /**
+   * Handle user sign-in - binds a signed user identity to the connection
+   */
+  private handleSignin(conn: ClientConnection, message: WebSocketMessage): void {
+    const signinMsg = validateSignin(message);
+    if (!signinMsg) {
+      this.sendError(conn.socket, ErrorCodes.INVALID_MESSAGE, 'Invalid signin message format');
+      return;
+    }
+
+    const { auth, user_data } = signinMsg.data;
+    if (!verifyUserAuth(conn.context.app, auth, conn.id, user_data)) {
+      this.sendError(conn.socket, ErrorCodes.UNAUTHORIZED, 'Authentication failed');
+      return;
+    }
+
+    // Signing in again replaces the previous identity
+    if (conn.user) {
+      this.signOut(conn);
+    }
+
+    const user = parseUserData(user_data)!;
+    conn.user = user;
+
+    // Data is JSON-encoded per the Pusher protocol, like connection_established
+    this.sendMessage(conn.socket, {
+      event: 'pusher:signin_success',
+      data: JSON.stringify({ user_data }),
+    });
+
+    const { watchlists } = conn.context;
+    const cameOnline = watchlists.addConnection(user.id, conn.id);
+    this.adapter.publish({ type: 'user_online', appId: conn.context.app.id, userId: user.id, socketId: conn.id });
+    if (cameOnline) {
+      this.notifyWatchers(conn.context, [{ name: 'online', user_ids: [user.id] }]);
+    }
+
+    // Start the watchlist with who is online right now
+    if (user.watchlist?.length) {
+      watchlists.watch(conn.id, user.watchlist);
+      const online = user.watchlist.filter((userId) => watchlists.isOnline(userId));
+      if (online.length > 0) {
+        this.sendWatchlistEvents(conn, [{ name: 'online', user_ids: online }]);
+      }
+    }
+
+    logger.info({ socketId: conn.id, userId: user.id }, 'Client signed in');
+  }
+
+  /**
+   * Forget a connection's user: stop its watchlist and count it offline
+   */
+  private signOut(conn: ClientConnection): void {
+    const user = conn.user;
+    if (!user) {
+      return;
+    }
+
+    conn.user = undefined;
+    conn.context.watchlists.unwatch(conn.id, user.watchlist ?? []);
+
+    const wentOffline = conn.context.watchlists.removeConnection(user.id, conn.id);
+    this.adapter.publish({ type: 'user_offline', appId: conn.context.app.id, userId: user.id, socketId: conn.id });
+    if (wentOffline) {
+      this.notifyWatchers(conn.context, [{ name: 'offline', user_ids: [user.id] }]);
+    }
+  }
+
+  private sendWatchlistEvents(conn: ClientConnection, events: WatchlistEvent[]): void {
+    this.sendMessage(conn.socket, {
+      event: 'pusher_internal:watchlist_events',
+      data: { events },
+    });
+  }
+
+  /**
+   * Tell this node's watchers that users came online or went offline
+   */
+  private notifyWatchers(context: AppContext, events: WatchlistEvent[]): void {
+    const watcherEvents: Map<string, WatchlistEvent[]> = new Map(); // socket ID -> events it watches
+
+    for (const event of events) {
+      for (const userId of event.user_ids) {
+        for (const socketId of context.watchlists.getWatchers(userId)) {
+          const pending = watcherEvents.get(socketId) ?? [];
+          const existing = pending.find((item) => item.name === event.name);
+          if (existing) {
+            existing.user_ids.push(userId);
+          } else {
+            pending.push({ name: event.name, user_ids: [userId] });
+          }
+          watcherEvents.set(socketId, pending);
+        }
+      }
+    }
+
+    for (const [socketId, socketEvents] of watcherEvents) {
+      const conn = this.connections.get(socketId);
+      if (conn && conn.socket.readyState === WebSocket.OPEN) {
+        this.sendWatchlistEvents(conn, socketEvents);
+      }
+    }
   }
 
   /**
    * Handle client event (publish message)
    */
   private handleClientEvent(conn: ClientConnection, message: WebSocketMessage): void {
-    // Rate limit check
-    if (!rateLimiter.canSendMessage(conn.id)) {
-      this.sendError(conn.socket, 'Rate limit exceeded');
+    // Client events are opt-in per app
+    if (!conn.context.app.enableClientMessages) {
+      this.sendError(conn.socket, ErrorCodes.CLIENT_EVENT_REJECTED, 'Client events are not enabled for this app');
       return;
     }
 
     const eventMsg = validateClientEvent(message);
     if (!eventMsg) {
-      this.sendError(conn.socket, 'Invalid client event message format');
+      this.sendError(conn.socket, ErrorCodes.INVALID_MESSAGE, 'Invalid client event message format');
       return;
     }
 
     const { channel: channelName, event, data } = eventMsg;
+    const channelType = getChannelType(channelName);
 
-    // Check if subscribed to channel
-    if (!conn.channels.has(channelName)) {
-      this.sendError(conn.socket, 'Not subscribed to channel');
+    if (!this.checkRateLimit(conn, 'client_event', channelType)) {
       return;
     }
 
-    // Don't allow client events on private/presence channels (security)
-    const channelType = getChannelType(channelName);
-    if (channelType === 'private' || channelType === 'presence') {
-      this.sendError(conn.socket, 'Client events not allowed on private/presence channels');
+    if (!event.startsWith(CLIENT_EVENT_PREFIX)) {
+      this.sendError(conn.socket, ErrorCodes.CLIENT_EVENT_REJECTED, `Client event names must start with "${CLIENT_EVENT_PREFIX}"`);
       return;
     }
 
-    // Broadcast to all subscribers
-    this.broadcastToChannel(channelName, {
+    // Only authenticated channels accept client events (Pusher semantics)
+    if (channelType === 'private-encrypted') {
+      this.sendError(conn.socket, ErrorCodes.CLIENT_EVENT_REJECTED, 'Client events are not allowed on encrypted channels');
+      return;
+    }
+    if (channelType !== 'private' && channelType !== 'presence') {
+      this.sendError(conn.socket, ErrorCodes.CLIENT_EVENT_REJECTED, 'Client events are only allowed on private and presence channels');
+      return;
+    }
+
+    // Check if subscribed to channel
+    if (!conn.channels.has(channelName)) {
+      this.sendError(conn.socket, ErrorCodes.CLIENT_EVENT_REJECTED, 'Not subscribed to channel');
+      return;
+    }
+
+    const outgoing: WebSocketMessage = {
       event,
       data,
       channel: channelName,
+    };
+
+    // Presence client events say which member sent them
+    if (channelType === 'presence') {
+      const member = conn.context.presence.getMember(channelName, conn.id);
+      if (member) {
+        outgoing.user_id = member.user_id;
+      }
+    }
+
+    // Broadcast to all other subscribers
+    this.broadcastToChannel(conn.context, channelName, outgoing, conn.id);
+
+    webhookSender.enqueue(conn.context.app, {
+      name: 'client_event',
+      channel: channelName,
+      event,
+      data: typeof data === 'string' ? data : JSON.stringify(data),
+      socket_id: conn.id,
+      user_id: outgoing.user_id,
     });
 
     logger.debug({ socketId: conn.id, channelName, event }, 'Client event broadcasted');
   }
 
   /**
-   * Broadcast message to all subscribers of a channel (except sender)
+   * Broadcast message to all subscribers of a channel (except sender) on every node
+   * Returns the number of local sockets the message was sent to
    */
   private broadcastToChannel(
+    context: AppContext,
     channelName: string,
     message: WebSocketMessage,
     excludeSocketId?: string
-  ): void {
-    const subscribers = channelManager.getSubscribers(channelName);
-    
-    for (const socketId of subscribers) {
-      if (socketId === excludeSocketId) {
-        continue;
-      }
+  ): number {
+    message = this.recordHistory(context, channelName, message);
 
-      const conn = this.connections.get(socketId);
-      if (conn && conn.socket.readyState === WebSocket.OPEN) {
-        this.sendMessage(conn.socket, message);
-      }
+    this.adapter.publish({
+      type: 'publish',
+      appId: context.app.id,
+      channel: channelName,
+      message,
+      excludeSocketId,
+    });
+
+    return this.deliverToChannel(context, channelName, message, excludeSocketId);
+  }
+
+  /**
+   * Add a channel event to history (when enabled), returning it with its seq
+   */
+  private recordHistory(context: AppContext, channelName: string, message: WebSocketMessage): WebSocketMessage {
+    if (!context.history.isEnabled() || message.event.startsWith('pusher_internal:')) {
+      return message;
     }
+    return context.history.record(channelName, message);
+  }
+
+  /**
+   * Get this node's open sockets signed in as a user
+   */
+  private getUserConnections(app: App, userId: string): ClientConnection[] {
+    return Array.from(this.connections.values()).filter(
+      (conn) =>
+        conn.context.app.id === app.id &&
+        conn.user?.id === userId &&
+        conn.socket.readyState === WebSocket.OPEN
+    );
+  }
+
+  /**
+   * Send a message to this node's sockets signed in as a user
+   */
+  private deliverToUser(app: App, userId: string, message: WebSocketMessage): number {
+    const connections = this.getUserConnections(app, userId);
+    for (const conn of connections) {
+      this.sendMessage(conn.socket, message);
+    }
+    return connections.length;
+  }
+
+  /**
+   * Close this node's sockets signed in as a user
+   * Cleanup (channels, presence, webhooks) happens in handleClose as for any other close
+   */
+  private closeUserConnections(app: App, userId: string): number {
+    const connections = this.getUserConnections(app, userId);
+    for (const conn of connections) {
+      conn.socket.close(ErrorCodes.UNAUTHORIZED, 'Connection terminated by server');
+    }
+    return connections.length;
+  }
+
+  /**
+   * Send a message to this node's subscribers of a channel
+   */
+  private deliverToChannel(
+    context: AppContext,
+    channelName: string,
+    message: WebSocketMessage,
+    excludeSocketId?: string
+  ): number {
+    // Every node keeps its own copy of cached events, so this covers remote publishes too
+    if (isCacheChannel(channelName) && !message.event.startsWith('pusher_internal:')) {
+      context.channels.setCachedEvent(channelName, message);
+    }
+
+    const subscribers = context.channels.getSubscribers(channelName);
+
+    return metrics.broadcastFanout.time(() => {
+      let delivered = 0;
+
+      for (const socketId of subscribers) {
+        if (socketId === excludeSocketId) {
+          continue;
+        }
+
+        const conn = this.connections.get(socketId);
+        if (conn && conn.socket.readyState === WebSocket.OPEN) {
+          this.sendMessage(conn.socket, message);
+          delivered++;
+        }
+      }
+
+      return delivered;
+    });
   }
 
   /**
    * Handle incoming WebSocket message
    */
   private handleMessage(conn: ClientConnection, rawMessage: string): void {
-    conn.lastActivity = Date.now();
+    this.markActive(conn);
 
     let message: WebSocketMessage;
     try {
       message = JSON.parse(rawMessage) as WebSocketMessage;
     } catch (error) {
       logger.debug({ error, rawMessage }, 'Invalid JSON message');
-      this.sendError(conn.socket, 'Invalid JSON format');
+      this.sendError(conn.socket, ErrorCodes.INVALID_MESSAGE, 'Invalid JSON format');
       return;
     }
 
     const validated = validateMessage(message);
     if (!validated) {
-      this.sendError(conn.socket, 'Invalid message format');
+      this.sendError(conn.socket, ErrorCodes.INVALID_MESSAGE, 'Invalid message format');
       return;
     }
 
@@ -330,7 +754,14 @@ class WebSocketServerManager {
         this.handleUnsubscribe(conn, validated);
         break;
 
+      case 'pusher:signin':
+        this.handleSignin(conn, validated);
+        break;
+
       case 'pusher:ping':
+        if (!this.checkRateLimit(conn, 'ping')) {
+          break;
+        }
         // Heartbeat response
         this.sendMessage(conn.socket, {
           event: 'pusher:pong',
@@ -338,6 +769,10 @@ class WebSocketServerManager {
         });
         break;
 
+      case 'pusher:pong':
+        // Reply to a server ping - activity was already recorded
+        break;
+
       default:
         // Client event (publish)
         this.handleClientEvent(conn, validated);
@@ -345,6 +780,47 @@ class WebSocketServerManager {
     }
   }
 
+  /**
+   * Record activity on a connection (any message or pong proves it is alive)
+   */
+  private markActive(conn: ClientConnection): void {
+    conn.lastActivity = Date.now();
+    conn.pingSentAt = null;
+  }
+
+  /**
+   * Ping idle connections and close those that never answered
+   * A peer that doesn't finish the close handshake by the next check is terminated;
+   * either way the socket emits 'close', so cleanup goes through handleClose
+   */
+  private checkHeartbeats(): void {
+    const now = Date.now();
+
+    for (const conn of this.connections.values()) {
+      if (conn.pingSentAt !== null) {
+        if (conn.socket.readyState === WebSocket.CLOSING) {
+          conn.socket.terminate();
+        } else if (now - conn.pingSentAt >= config.pongTimeout * 1000) {
+          logger.info({ socketId: conn.id, ip: conn.ip }, 'Pong not received, closing connection');
+          conn.socket.close(ErrorCodes.PONG_TIMEOUT, 'Pong reply not received');
+        }
+        continue;
+      }
+
+      if (now - conn.lastActivity >= config.activityTimeout * 1000) {
+        conn.pingSentAt = now;
+        this.sendMessage(conn.socket, {
+          event: 'pusher:ping',
+          data: {},
+        });
+        // Also send a protocol-level ping for clients that don't speak pusher:ping
+        if (conn.socket.readyState === WebSocket.OPEN) {
+          conn.socket.ping();
+        }
+      }
+    }
+  }
+
   /**
    * Handle connection close
    */
@@ -353,45 +829,79 @@ class WebSocketServerManager {
 
     // Unsubscribe from all channels
     for (const channelName of conn.channels) {
-      channelManager.unsubscribe(channelName, conn.id);
+      clearTimeout(conn.expiryTimers.get(channelName));
+      conn.context.channels.unsubscribe(channelName, conn.id);
+      this.publishChannelCount(conn.context, channelName);
 
       // Handle presence channel
-      const channelType = getChannelType(channelName);
-      if (channelType === 'presence' && presenceManager.hasMember(channelName, conn.id)) {
-        const member = presenceManager.getMember(channelName, conn.id);
-        
-        if (member) {
-          presenceManager.removeMember(channelName, conn.id);
-          
-          // Broadcast member removed
-          this.broadcastToChannel(channelName, {
-            event: 'pusher_internal:member_removed',
-            data: { user_id: member.user_id },
-            channel: channelName,
-          });
-        } else {
-          // Still remove even if member data not found
-          presenceManager.removeMember(channelName, conn.id);
-        }
-      }
+      this.leavePresenceChannel(conn, channelName);
     }
 
+    this.signOut(conn);
+
     // Cleanup
     this.connections.delete(conn.id);
-    rateLimiter.removeSocket(conn.id);
-    rateLimiter.removeConnection(conn.ip);
+    conn.context.rateLimiter.removeSocket(conn.id);
+    conn.context.rateLimiter.removeConnection(conn.ip);
+  }
+
+  /**
+   * Read the app key from a connection path
+   * Pusher clients connect on /app/:key; the legacy WS path (null) maps to the default app
+   * Returns undefined for any other path
+   */
+  private parseAppKey(url: string | undefined): string | null | undefined {
+    // Paths come straight from the client: an unparsable one is just an unknown path
+    try {
+      const { pathname } = new URL(url || '/', 'http://localhost');
+
+      if (pathname === config.wsPath) {
+        return null;
+      }
+
+      const match = /^\/app\/([^/]+)$/.exec(pathname);
+      return match ? decodeURIComponent(match[1]) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Resolve the app a connection belongs to from its request path
+   */
+  private resolveApp(url: string | undefined): App | undefined {
+    const appKey = this.parseAppKey(url);
+    if (appKey === undefined) {
+      return undefined;
+    }
+    return appKey === null ? this.apps.getDefault() : this.apps.findByKey(appKey);
   }
 
   /**
    * Handle new WebSocket connection
    */
-  private handleConnection(socket: WebSocket, req: { headers: Record<string, string | string[] | undefined>; socket: { remoteAddress?: string } }): void {
-    const ip = this.getClientIp(req);
+  private handleConnection(socket: WebSocket, req: IncomingMessage): void {
+    const ip = getClientIp(req.socket.remoteAddress, req.headers['x-forwarded-for']);
+
+    // Counted before any checks, so rejected connections show up under their close code
+    metrics.connectionsOpened.inc();
+    socket.once('close', (code: number) => {
+      metrics.connectionsClosed.inc({ code: String(code) });
+    });
+
+    // verifyClient lets unknown app keys through so they can be refused with a close code
+    const app = this.resolveApp(req.url);
+    if (!app) {
+      logger.warn({ url: req.url }, 'Connection for unknown app');
+      socket.close(ErrorCodes.APP_NOT_FOUND, 'App not found');
+      return;
+    }
+    const context = this.apps.getContext(app);
 
     // Check connection limit
-    if (!rateLimiter.canConnect(ip)) {
-      logger.warn({ ip }, 'Connection limit exceeded, rejecting');
-      socket.close(1008, 'Connection limit exceeded');
+    if (!context.rateLimiter.canConnect(ip)) {
+      logger.warn({ ip, appId: app.id }, 'Connection limit exceeded, rejecting');
+      socket.close(ErrorCodes.OVER_CAPACITY, 'Connection limit exceeded');
       return;
     }
 
@@ -399,22 +909,41 @@ class WebSocketServerManager {
     const conn: ClientConnection = {
       socket,
       id: socketId,
+      context,
       ip,
       channels: new Set(),
       createdAt: Date.now(),
       lastActivity: Date.now(),
+      pingSentAt: null,
+      expiryTimers: new Map(),
     };
 
     this.connections.set(socketId, conn);
-    rateLimiter.addConnection(ip);
+    context.rateLimiter.addConnection(ip);
 
-    logger.info({ socketId, ip }, 'New WebSocket connection');
+    logger.info({ socketId, ip, appId: app.id }, 'New WebSocket connection');
+
+    // Tell the client its socket ID (needed for /auth) - data is JSON-encoded per the Pusher protocol
+    this.sendMessage(socket, {
+      event: 'pusher:connection_established',
+      data: JSON.stringify({
+        socket_id: socketId,
+        activity_timeout: config.activityTimeout,
+      }),
+    });
 
     // Handle messages
     socket.on('message', (data: Buffer) => {
+      metrics.messagesReceived.inc();
+      metrics.bytesReceived.inc({}, data.length);
       this.handleMessage(conn, data.toString());
     });
 
+    // Protocol-level pong (reply to our ping frame)
+    socket.on('pong', () => {
+      this.markActive(conn);
+    });
+
     // Handle close
     socket.on('close', () => {
       this.handleClose(conn);
@@ -426,25 +955,383 @@ class WebSocketServerManager {
     });
   }
 
+  /**
+   * Handle a message published by another node
+   */
+  private handleAdapterMessage = ({ nodeId, message }: AdapterEnvelope): void => {
+    switch (message.type) {
+      case 'publish': {
+        const app = this.apps.findById(message.appId);
+        if (app) {
+          this.deliverToChannel(this.apps.getContext(app), message.channel, message.message, message.excludeSocketId);
+        }
+        break;
+      }
+
+      case 'user_event': {
+        const app = this.apps.findById(message.appId);
+        if (app) {
+          this.deliverToUser(app, message.userId, message.message);
+        }
+        break;
+      }
+
+      case 'terminate_user': {
+        const app = this.apps.findById(message.appId);
+        if (app) {
+          this.closeUserConnections(app, message.userId);
+        }
+        break;
+      }
+
+      case 'channel_count': {
+        const app = this.apps.findById(message.appId);
+        if (app) {
+          this.apps.getContext(app).channels.setNodeCount(message.channel, nodeId, message.subscriberCount);
+        }
+        break;
+      }
+
+      case 'channel_state':
+        this.applyChannelState(nodeId, message.apps);
+        if (message.requestSync) {
+          this.publishChannelState(false);
+        }
+        break;
+
+      case 'presence_join': {
+        const app = this.apps.findById(message.appId);
+        if (app) {
+          this.apps.getContext(app).presence.addMember(message.channel, message.socketId, message.member, nodeId);
+        }
+        break;
+      }
+
+      case 'presence_leave': {
+        const app = this.apps.findById(message.appId);
+        if (app) {
+          this.apps.getContext(app).presence.removeMember(message.channel, message.socketId);
+        }
+        break;
+      }
+
+      case 'presence_state':
+        this.applyPresenceState(nodeId, message.apps);
+        if (message.requestSync) {
+          this.publishPresenceState(false);
+        }
+        break;
+
+      case 'user_online': {
+        const app = this.apps.findById(message.appId);
+        if (app) {
+          const context = this.apps.getContext(app);
+          if (context.watchlists.addConnection(message.userId, message.socketId, nodeId)) {
+            this.notifyWatchers(context, [{ name: 'online', user_ids: [message.userId] }]);
+          }
+        }
+        break;
+      }
+
+      case 'user_offline': {
+        const app = this.apps.findById(message.appId);
+        if (app) {
+          const context = this.apps.getContext(app);
+          if (context.watchlists.removeConnection(message.userId, message.socketId)) {
+            this.notifyWatchers(context, [{ name: 'offline', user_ids: [message.userId] }]);
+          }
+        }
+        break;
+      }
+
+      case 'user_state':
+        this.applyUserState(nodeId, message.apps);
+        if (message.requestSync) {
+          this.publishUserState(false);
+        }
+        break;
+    }
+  };
+
+  /**
+   * Share this node's signed-in sockets, optionally asking peers for theirs
+   */
+  private publishUserState(requestSync: boolean): void {
+    const apps: Record<string, OnlineRecord[]> = {};
+    for (const context of this.apps.getContexts()) {
+      apps[context.app.id] = context.watchlists.getLocalConnections();
+    }
+
+    this.adapter.publish({ type: 'user_state', apps, requestSync });
+  }
+
+  /**
+   * Replace everything known about a node's signed-in sockets with its snapshot,
+   * telling watchers about users whose status changed as a result
+   */
+  private applyUserState(nodeId: string, apps: Record<string, OnlineRecord[]>): void {
+    const offline: Map<string, Set<string>> = new Map(); // app ID -> users the snapshot took offline
+    for (const context of this.apps.getContexts()) {
+      offline.set(context.app.id, new Set(context.watchlists.removeNode(nodeId)));
+    }
+
+    const online: Map<string, string[]> = new Map(); // app ID -> users the snapshot brought online
+    for (const [appId, records] of Object.entries(apps)) {
+      const app = this.apps.findById(appId);
+      if (!app) {
+        continue;
+      }
+
+      const { watchlists } = this.apps.getContext(app);
+      const cameOnline: string[] = [];
+      for (const { userId, socketId } of records) {
+        // A user dropped and re-added by the snapshot never changed status
+        if (watchlists.addConnection(userId, socketId, nodeId) && !offline.get(appId)?.delete(userId)) {
+          cameOnline.push(userId);
+        }
+      }
+      online.set(appId, cameOnline);
+    }
+
+    for (const context of this.apps.getContexts()) {
+      const appId = context.app.id;
+      this.notifyStatusChanges(context, online.get(appId) ?? [], Array.from(offline.get(appId) ?? []));
+    }
+  }
+
+  private notifyStatusChanges(context: AppContext, online: string[], offline: string[]): void {
+    const events: WatchlistEvent[] = [];
+    if (online.length > 0) {
+      events.push({ name: 'online', user_ids: online });
+    }
+    if (offline.length > 0) {
+      events.push({ name: 'offline', user_ids: offline });
+    }
+    if (events.length > 0) {
+      this.notifyWatchers(context, events);
+    }
+  }
+
+  /**
+   * Tell other nodes how many subscribers this node now has in a channel
+   */
+  private publishChannelCount(context: AppContext, channelName: string): void {
+    this.adapter.publish({
+      type: 'channel_count',
+      appId: context.app.id,
+      channel: channelName,
+      subscriberCount: context.channels.getChannel(channelName)?.subscribers.size ?? 0,
+    });
+  }
+
+  /**
+   * Share this node's subscriber counts, optionally asking peers for theirs
+   */
+  private publishChannelState(requestSync: boolean): void {
+    const apps: Record<string, ChannelCount[]> = {};
+    for (const context of this.apps.getContexts()) {
+      apps[context.app.id] = context.channels.getLocalCounts();
+    }
+
+    this.adapter.publish({ type: 'channel_state', apps, requestSync });
+  }
+
+  /**
+   * Replace everything known about a node's subscriber counts with its snapshot
+   * Occupancy changes here come from counts that never arrived, so only the reporter sends their webhooks
+   */
+  private applyChannelState(nodeId: string, apps: Record<string, ChannelCount[]>): void {
+    const isReporter = this.isReporter();
+    const appIds = new Set([...this.apps.getContexts().map((context) => context.app.id), ...Object.keys(apps)]);
+
+    for (const appId of appIds) {
+      const app = this.apps.findById(appId);
+      if (!app) {
+        continue;
+      }
+
+      const { occupied, vacated } = this.apps.getContext(app).channels.replaceNode(nodeId, apps[appId] ?? []);
+      if (isReporter) {
+        for (const channelName of occupied) {
+          webhookSender.enqueue(app, { name: 'channel_occupied', channel: channelName });
+        }
+        for (const channelName of vacated) {
+          webhookSender.enqueue(app, { name: 'channel_vacated', channel: channelName });
+        }
+      }
+    }
+  }
+
+  /**
+   * Share this node's presence members, optionally asking peers for theirs
+   */
+  private publishPresenceState(requestSync: boolean): void {
+    const apps: Record<string, PresenceRecord[]> = {};
+    for (const context of this.apps.getContexts()) {
+      apps[context.app.id] = context.presence.getLocalMembers();
+    }
+
+    this.adapter.publish({ type: 'presence_state', apps, requestSync });
+  }
+
+  /**
+   * Replace everything known about a node's presence members with its snapshot,
+   * telling local subscribers about members whose join or leave never arrived
+   */
+  private applyPresenceState(nodeId: string, apps: Record<string, PresenceRecord[]>): void {
+    const appIds = new Set([...this.apps.getContexts().map((context) => context.app.id), ...Object.keys(apps)]);
+
+    for (const appId of appIds) {
+      const app = this.apps.findById(appId);
+      if (!app) {
+        continue;
+      }
+
+      const context = this.apps.getContext(app);
+      const { added, removed } = context.presence.replaceNode(nodeId, apps[appId] ?? []);
+
+      for (const { channelName, member } of added) {
+        this.deliverToChannel(context, channelName, {
+          event: 'pusher_internal:member_added',
+          data: { user_id: member.user_id, user_info: member.user_info },
+          channel: channelName,
+        });
+      }
+      for (const { channelName, member } of removed) {
+        this.deliverToChannel(context, channelName, {
+          event: 'pusher_internal:member_removed',
+          data: { user_id: member.user_id },
+          channel: channelName,
+        });
+      }
+    }
+  }
+
+  /**
+   * Whether this node sends the webhooks for changes no single node made, like a node leaving
+   * The reporter is the first live node by ID, so every node agrees on which one it is
+   */
+  private isReporter(): boolean {
+    const [reporter] = this.adapter.getNodes().sort();
+    return reporter === this.adapter.nodeId;
+  }
+
+  /**
+   * Expire a departed node's subscribers, presence members and signed-in users and tell local clients
+   * Only the reporter sends the resulting webhooks
+   */
+  private handleNodeLeft = (nodeId: string): void => {
+    const isReporter = this.isReporter();
+
+    for (const context of this.apps.getContexts()) {
+      for (const channelName of context.channels.removeNode(nodeId)) {
+        if (isReporter) {
+          webhookSender.enqueue(context.app, { name: 'channel_vacated', channel: channelName });
+        }
+      }
+
+      for (const { channelName, member } of context.presence.removeNode(nodeId)) {
+        this.deliverToChannel(context, channelName, {
+          event: 'pusher_internal:member_removed',
+          data: { user_id: member.user_id },
+          channel: channelName,
+        });
+
+        if (isReporter) {
+          webhookSender.enqueue(context.app, { name: 'member_removed', channel: channelName, user_id: member.user_id });
+        }
+      }
+
+      this.notifyStatusChanges(context, [], context.watchlists.removeNode(nodeId));
+    }
+  };
+
+  /**
+   * Count this node's connections per app (read when metrics are scraped)
+   */
+  private collectConnectionMetrics(): Sample[] {
+    const counts = new Map<string, number>();
+    for (const conn of this.connections.values()) {
+      counts.set(conn.context.app.id, (counts.get(conn.context.app.id) ?? 0) + 1);
+    }
+
+    return Array.from(counts, ([appId, value]) => ({ labels: { app_id: appId }, value }));
+  }
+
+  /**
+   * Count this node's subscriptions per app and channel type (read when metrics are scraped)
+   */
+  private collectSubscriptionMetrics(): Sample[] {
+    const samples: Sample[] = [];
+
+    for (const context of this.apps.getContexts()) {
+      const counts = new Map<string, number>();
+      for (const channel of context.channels.getAllChannels()) {
+        counts.set(channel.type, (counts.get(channel.type) ?? 0) + channel.subscribers.size);
+      }
+
+      for (const [channelType, value] of counts) {
+        samples.push({ labels: { app_id: context.app.id, channel_type: channelType }, value });
+      }
+    }
+
+    return samples;
+  }
+
   /**
    * Initialize WebSocket server
+   * The adapter must already be connected; it defaults to a single-node in-memory adapter
    */
-  initialize(httpServer: ReturnType<typeof createServer>): void {
-    this.httpServer = httpServer;
+  initialize(httpServer: ReturnType<typeof createServer>, adapter: BroadcastAdapter = new MemoryAdapter()): void {
+    this.adapter = adapter;
+    this.adapter.onMessage(this.handleAdapterMessage);
+    this.adapter.onNodeJoined(() => {
+      this.publishChannelState(true);
+      this.publishPresenceState(true);
+      this.publishUserState(true);
+    });
+    this.adapter.onNodeLeft(this.handleNodeLeft);
+
+    // Subscriber counts, joins, leaves and sign-ins are fire-and-forget, so resend the full
+    // snapshots with every node heartbeat: peers that missed an update converge on the next one
+    this.stateSyncTimer = setInterval(() => {
+      if (this.adapter.getNodes().length > 1) {
+        this.publishChannelState(false);
+        this.publishPresenceState(false);
+        this.publishUserState(false);
+      }
+    }, config.nodeHeartbeatMs);
+    this.stateSyncTimer.unref();
+
+    metrics.connections.collect(() => this.collectConnectionMetrics());
+    metrics.subscriptions.collect(() => this.collectSubscriptionMetrics());
 
     this.wss = new WebSocketServer({
       server: httpServer,
-      path: config.wsPath,
-      verifyClient: (info) => {
+      verifyClient: (
+        info: { origin: string; req: IncomingMessage },
+        callback: (result: boolean, code?: number, message?: string) => void
+      ) => {
+        if (this.parseAppKey(info.req.url) === undefined) {
+          logger.warn({ url: info.req.url }, 'Connection on unknown path');
+          callback(false, 404, 'Not found');
+          return;
+        }
+
+        // Unknown app keys are accepted and then closed with 4001, which tells Pusher
+        // clients not to reconnect; a failed handshake would have them retry forever
+        const app = this.resolveApp(info.req.url);
+
         // Origin validation (if configured)
-        if (config.allowedOrigins.length > 0 && !config.allowedOrigins.includes('*')) {
+        if (app && app.allowedOrigins.length > 0 && !app.allowedOrigins.includes('*')) {
           const origin = info.origin;
-          if (origin && !config.allowedOrigins.includes(origin)) {
-            logger.warn({ origin, allowed: config.allowedOrigins }, 'Origin not allowed');
-            return false;
+          if (origin && !app.allowedOrigins.includes(origin)) {
+            logger.warn({ origin, allowed: app.allowedOrigins, appId: app.id }, 'Origin not allowed');
+            callback(false, 403, 'Origin not allowed');
+            return;
           }
         }
-        return true;
+        callback(true);
       },
     });
 
@@ -452,32 +1339,92 @@ class WebSocketServerManager {
       this.handleConnection(socket, req);
     });
 
-    logger.info({ path: config.wsPath }, 'WebSocket server initialized');
+    // Check often enough that idle and unresponsive connections are caught promptly
+    const heartbeatIntervalMs = (Math.min(config.activityTimeout, config.pongTimeout) * 1000) / 2;
+    this.heartbeatTimer = setInterval(() => this.checkHeartbeats(), heartbeatIntervalMs);
+    this.heartbeatTimer.unref();
+
+    logger.info({ paths: ['/app/:key', config.wsPath] }, 'WebSocket server initialized');
   }
 
   /**
    * Broadcast server event to a channel (server-to-client)
+   * Optionally excludes one socket (e.g. the client that triggered the change)
+   * Data for encrypted channels is sealed here, so it never leaves the server in plaintext
    */
-  broadcastServerEvent(channelName: string, event: string, data: unknown): void {
-    this.broadcastToChannel(channelName, {
+  broadcastServerEvent(
+    app: App,
+    channelName: string,
+    event: string,
+    data: unknown,
+    excludeSocketId?: string
+  ): number {
+    if (getChannelType(channelName) === 'private-encrypted') {
+      if (!app.encryptionMasterKey) {
+        throw new Error('Encryption master key is not configured');
+      }
+      data = encryptPayload(app.encryptionMasterKey, channelName, data);
+    }
+
+    return this.broadcastToChannel(this.apps.getContext(app), channelName, {
       event,
       data,
       channel: channelName,
-    });
+    }, excludeSocketId);
   }
 
   /**
-   * Get connection statistics
+   * Send an event to every socket signed in as a user, on every node
+   * Returns the number of local sockets the event was sent to
    */
-  getStats(): {
+  sendToUser(app: App, userId: string, event: string, data: unknown): number {
+    // Pusher clients receive user events on the user's server-to-user channel
+    const message: WebSocketMessage = {
+      event,
+      data,
+      channel: `#server-to-user-${userId}`,
+    };
+
+    this.adapter.publish({ type: 'user_event', appId: app.id, userId, message });
+    return this.deliverToUser(app, userId, message);
+  }
+
+  /**
+   * Disconnect every socket signed in as a user, on every node
+   * Returns the number of local sockets that were closed
+   */
+  terminateUserConnections(app: App, userId: string): number {
+    this.adapter.publish({ type: 'terminate_user', appId: app.id, userId });
+    const terminated = this.closeUserConnections(app, userId);
+
+    logger.info({ appId: app.id, userId, terminated }, 'User connections terminated');
+    return terminated;
+  }
+
+  /**
+   * Get connection statistics for one app, or totals across all apps
+   */
+  getStats(app?: App): {
     connections: number;
     channels: number;
     presenceChannels: number;
   } {
+    const contexts = app ? [this.apps.getContext(app)] : this.apps.getContexts();
+
+    let connections = 0;
+    for (const conn of this.connections.values()) {
+      if (!app || conn.context.app.id === app.id) {
+        connections++;
+      }
+    }
+
     return {
-      connections: this.connections.size,
-      channels: channelManager.getChannelCount(),
-      presenceChannels: presenceManager.getActiveChannels().length,
+      connections,
+      channels: contexts.reduce((sum, context) => sum + context.channels.getChannelCount(), 0),
+      presenceChannels: contexts.reduce(
+        (sum, context) => sum + context.presence.getActiveChannels().length,
+        0
+      ),
     };
   }
 
@@ -487,11 +1434,27 @@ class WebSocketServerManager {
   async shutdown(): Promise<void> {
     logger.info('Shutting down WebSocket server...');
 
-    // Close all connections
-    for (const conn of this.connections.values()) {
-      conn.socket.close(1001, 'Server shutting down');
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    if (this.stateSyncTimer) {
+      clearInterval(this.stateSyncTimer);
+      this.stateSyncTimer = null;
     }
 
+    // Close all connections, giving clients a moment to finish the close handshake
+    // so their presence cleanup reaches other nodes before this one leaves
+    const closed = Array.from(this.connections.values(), (conn) =>
+      new Promise<void>((resolve) => {
+        conn.socket.once('close', () => resolve());
+        conn.socket.close(ErrorCodes.RECONNECT, 'Server shutting down');
+      })
+    );
+    await Promise.race([Promise.all(closed), sleep(SHUTDOWN_CLOSE_TIMEOUT_MS)]);
+
+    await this.adapter.close();
+
     // Close WebSocket server
     if (this.wss) {
       return new Promise((resolve) => {
@@ -0,0 +1,216 @@
+/**
+ * Broadcast adapter tests (multi-node fan-out)
+ */
+
+import { createServer, type Server } from 'http';
+import { MemoryAdapter, type AdapterEnvelope, type BroadcastAdapter } from '../src/adapters/broadcast-adapter.js';
+import { RedisAdapter } from '../src/adapters/redis-adapter.js';
+import { RedisClient } from '../src/adapters/redis-client.js';
+import { WebSocketServerManager } from '../src/ws/websocket-server.js';
+import { appManager } from '../src/apps/app-manager.js';
+import { config } from '../src/utils/config.js';
+import { startRespServer, type RespServer } from './resp-server.js';
+import { connectClient, subscribeClient, waitForMessage, expectNoMessage } from './helpers.js';
+
+const REDIS_PORT = 6390;
+const REDIS_PASSWORD = 'hunter2';
+const REDIS_URL = `redis://:${REDIS_PASSWORD}@localhost:${REDIS_PORT}`;
+const CHANNEL = 'test:broadcast';
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function collect(adapter: BroadcastAdapter): AdapterEnvelope[] {
+  const received: AdapterEnvelope[] = [];
+  adapter.onMessage((envelope) => received.push(envelope));
+  return received;
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await sleep(10);
+  }
+}
+
+describe('Broadcast Adapters', () => {
+  let redis: RespServer;
+  const originalHeartbeatMs = config.nodeHeartbeatMs;
+
+  beforeAll(async () => {
+    config.nodeHeartbeatMs = 50;
+    redis = await startRespServer(REDIS_PORT, REDIS_PASSWORD);
+  });
+
+  afterAll(async () => {
+    config.nodeHeartbeatMs = originalHeartbeatMs;
+    await redis.close();
+  });
+
+  describe('RedisClient', () => {
+    test('should authenticate from the URL and run commands', async () => {
+      const client = new RedisClient(REDIS_URL);
+      await client.connect();
+
+      expect(await client.command('PING')).toBe('PONG');
+      await client.close();
+    });
+
+    test('should reject a wrong password', async () => {
+      const client = new RedisClient(`redis://:wrong@localhost:${REDIS_PORT}`);
+      await expect(client.connect()).rejects.toThrow('WRONGPASS');
+    });
+
+    test('should fail to connect when nothing is listening', async () => {
+      const client = new RedisClient('redis://localhost:6391');
+      await expect(client.connect()).rejects.toThrow();
+    });
+  });
+
+  describe('RedisAdapter', () => {
+    let nodeA: RedisAdapter;
+    let nodeB: RedisAdapter;
+
+    beforeEach(async () => {
+      nodeA = new RedisAdapter(REDIS_URL, CHANNEL, 'node-a');
+      nodeB = new RedisAdapter(REDIS_URL, CHANNEL, 'node-b');
+      await nodeA.connect();
+      await nodeB.connect();
+    });
+
+    afterEach(async () => {
+      await nodeA.close();
+      await nodeB.close();
+    });
+
+    test('should deliver publishes to other nodes but not back to the sender', async () => {
+      const receivedA = collect(nodeA);
+      const receivedB = collect(nodeB);
+
+      nodeA.publish({
+        type: 'publish',
+        appId: 'app',
+        channel: 'public-news',
+        message: { event: 'headline', data: { title: 'Hello' }, channel: 'public-news' },
+      });
+
+      await waitFor(() => receivedB.some((envelope) => envelope.message.type === 'publish'));
+      const envelope = receivedB.find((item) => item.message.type === 'publish')!;
+      expect(envelope.nodeId).toBe('node-a');
+      expect(envelope.message).toMatchObject({ appId: 'app', channel: 'public-news' });
+      expect(receivedA.some((item) => item.message.type === 'publish')).toBe(false);
+    });
+
+    test('should carry presence joins and leaves', async () => {
+      const receivedB = collect(nodeB);
+
+      nodeA.publish({
+        type: 'presence_join',
+        appId: 'app',
+        channel: 'presence-room',
+        socketId: '1.1',
+        member: { user_id: 'alice' },
+      });
+      nodeA.publish({ type: 'presence_leave', appId: 'app', channel: 'presence-room', socketId: '1.1' });
+
+      await waitFor(() => receivedB.some((envelope) => envelope.message.type === 'presence_leave'));
+      const types = receivedB.map((envelope) => envelope.message.type).filter((type) => type !== 'heartbeat');
+      expect(types).toEqual(['presence_join', 'presence_leave']);
+    });
+
+    test('should track live nodes from heartbeats', async () => {
+      await waitFor(() => nodeA.getNodes().length === 2 && nodeB.getNodes().length === 2);
+      expect(nodeA.getNodes().sort()).toEqual(['node-a', 'node-b']);
+    });
+
+    test('should reconnect and resubscribe after the connection drops', async () => {
+      const receivedB = collect(nodeB);
+      redis.dropConnections();
+
+      await sleep(1500);
+      nodeA.publish({
+        type: 'publish',
+        appId: 'app',
+        channel: 'public-news',
+        message: { event: 'after-reconnect', channel: 'public-news' },
+      });
+
+      await waitFor(() => receivedB.some((envelope) => envelope.message.type === 'publish'));
+    }, 10000);
+  });
+
+  describe('MemoryAdapter', () => {
+    test('should deliver between adapters in the same process', async () => {
+      const nodeA = new MemoryAdapter('memory-a');
+      const nodeB = new MemoryAdapter('memory-b');
+      await nodeA.connect();
+      await nodeB.connect();
+      const receivedB = collect(nodeB);
+
+      nodeA.publish({ type: 'presence_leave', appId: 'app', channel: 'presence-room', socketId: '1.1' });
+
+      await waitFor(() => receivedB.length > 0);
+      expect(receivedB[0].nodeId).toBe('memory-a');
+
+      await nodeA.close();
+      await nodeB.close();
+    });
+  });
+
+  describe('Multi-node fan-out', () => {
+    const PORT_A = 3005;
+    const PORT_B = 3006;
+    let serverA: Server;
+    let serverB: Server;
+    const nodeA = new WebSocketServerManager();
+    const nodeB = new WebSocketServerManager();
+
+    beforeAll(async () => {
+      serverA = createServer();
+      serverB = createServer();
+
+      const adapterA = new RedisAdapter(REDIS_URL, CHANNEL);
+      const adapterB = new RedisAdapter(REDIS_URL, CHANNEL);
+      await adapterA.connect();
+      await adapterB.connect();
+
+      nodeA.initialize(serverA, adapterA);
+      nodeB.initialize(serverB, adapterB);
+
+      await new Promise<void>((resolve) => serverA.listen(PORT_A, () => resolve()));
+      await new Promise<void>((resolve) => serverB.listen(PORT_B, () => resolve()));
+    });
+
+    afterAll(async () => {
+      await nodeA.shutdown();
+      await nodeB.shutdown();
+      await new Promise<void>((resolve) => serverA.close(() => resolve()));
+      await new Promise<void>((resolve) => serverB.close(() => resolve()));
+    });
+
+    test('should deliver server events to subscribers on another node', async () => {
+      const client = await connectClient(`ws://localhost:${PORT_B}/ws`);
+      await subscribeClient(client, PORT_B, 'public-news');
+
+      const received = waitForMessage(client, (message) => message.event === 'headline');
+      nodeA.broadcastServerEvent(appManager.getDefault(), 'public-news', 'headline', { title: 'Hello' });
+
+      expect((await received).data).toEqual({ title: 'Hello' });
+      client.ws.close();
+    });
+
+    test('should honour the excluded socket on other nodes', async () => {
+      const client = await connectClient(`ws://localhost:${PORT_B}/ws`);
+      await subscribeClient(client, PORT_B, 'public-news');
+
+      nodeA.broadcastServerEvent(appManager.getDefault(), 'public-news', 'headline', {}, client.socketId);
+
+      await expectNoMessage(client, (message) => message.event === 'headline');
+      client.ws.close();
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * App registry tests
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { appManager, loadAppsFromFile } from '../src/apps/app-manager.js';
+import { config } from '../src/utils/config.js';
+import type { App } from '../src/types/index.js';
+
+function writeTempFile(name: string, contents: string): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'apps-test-'));
+  const filePath = path.join(dir, name);
+  fs.writeFileSync(filePath, contents);
+  return filePath;
+}
+
+describe('App Manager', () => {
+  const appA: App = {
+    id: 'app-a',
+    key: 'key-a',
+    secret: 'secret-a',
+    allowedOrigins: ['*'],
+    rateLimit: config.rateLimit,
+    enableClientMessages: false,
+  };
+  const appB: App = { ...appA, id: 'app-b', key: 'key-b', secret: 'secret-b' };
+  const originalApps = appManager.getAll();
+
+  beforeEach(() => {
+    appManager.load([appA, appB]);
+  });
+
+  afterAll(() => {
+    appManager.load(originalApps);
+  });
+
+  describe('lookup', () => {
+    test('should find apps by ID and key', () => {
+      expect(appManager.findById('app-b')).toBe(appB);
+      expect(appManager.findByKey('key-a')).toBe(appA);
+      expect(appManager.findByKey('app-a')).toBeUndefined();
+    });
+
+    test('should use the first app as default', () => {
+      expect(appManager.getDefault()).toBe(appA);
+    });
+  });
+
+  describe('getContext', () => {
+    test('should isolate channels and presence per app', () => {
+      const contextA = appManager.getContext(appA);
+      const contextB = appManager.getContext(appB);
+
+      contextA.channels.subscribe('public-chat', 'socket-1');
+      contextA.presence.addMember('presence-room', 'socket-1', { user_id: 'user-1' });
+
+      expect(contextB.channels.getChannel('public-chat')).toBeUndefined();
+      expect(contextB.presence.getMemberCount('presence-room')).toBe(0);
+      expect(appManager.getContext(appA)).toBe(contextA);
+    });
+
+    test('should drop app state on reload', () => {
+      appManager.getContext(appA).channels.subscribe('public-chat', 'socket-1');
+      appManager.load([appA]);
+      expect(appManager.getContext(appA).channels.getChannel('public-chat')).toBeUndefined();
+    });
+  });
+
+  describe('loadAppsFromFile', () => {
+    test('should load apps from JSON', () => {
+      const filePath = writeTempFile('apps.json', JSON.stringify({
+        apps: [
+          { id: '1', key: 'key-1', secret: 'secret-1', allowedOrigins: ['https://example.com'] },
+          { id: '2', key: 'key-2', secret: 'secret-2', rateLimit: { messageRateLimit: 5 }, enableClientMessages: true },
+        ],
+      }));
+
+      const apps = loadAppsFromFile(filePath);
+      expect(apps).toHaveLength(2);
+      expect(apps[0].allowedOrigins).toEqual(['https://example.com']);
+      expect(apps[1].allowedOrigins).toEqual(config.allowedOrigins);
+      expect(apps[1].rateLimit.messageRateLimit).toBe(5);
+      expect(apps[1].rateLimit.connectionLimitPerIp).toBe(config.rateLimit.connectionLimitPerIp);
+      expect(apps[0].enableClientMessages).toBe(config.enableClientMessages);
+      expect(apps[1].enableClientMessages).toBe(true);
+    });
+
+    test('should load apps from YAML', () => {
+      const filePath = writeTempFile('apps.yaml', [
+        'apps:',
+        '  - id: "1"',
+        '    key: key-1',
+        '    secret: secret-1',
+        '    rateLimit:',
+        '      channelLimitPerConnection: 3',
+      ].join('\n'));
+
+      const apps = loadAppsFromFile(filePath);
+      expect(apps).toHaveLength(1);
+      expect(apps[0].key).toBe('key-1');
+      expect(apps[0].rateLimit.channelLimitPerConnection).toBe(3);
+    });
+
+    test('should not share AUTH_ENDPOINT_TOKEN between file apps', () => {
+      const originalToken = config.authEndpointToken;
+      config.authEndpointToken = 'env-token';
+      const filePath = writeTempFile('apps.json', JSON.stringify({
+        apps: [
+          { id: '1', key: 'key-1', secret: 'secret-1', authEndpointToken: 'token-1' },
+          { id: '2', key: 'key-2', secret: 'secret-2' },
+        ],
+      }));
+
+      try {
+        const apps = loadAppsFromFile(filePath);
+        expect(apps[0].authEndpointToken).toBe('token-1');
+        expect(apps[1].authEndpointToken).toBeUndefined();
+      } finally {
+        config.authEndpointToken = originalToken;
+      }
+    });
+
+    test('should reject duplicate app keys', () => {
+      const filePath = writeTempFile('apps.json', JSON.stringify({
+        apps: [
+          { id: '1', key: 'key-1', secret: 'secret-1' },
+          { id: '2', key: 'key-1', secret: 'secret-2' },
+        ],
+      }));
+
+      expect(() => loadAppsFromFile(filePath)).toThrow('Duplicate app key');
+    });
+
+    test('should reject apps without a secret', () => {
+      const filePath = writeTempFile('apps.json', JSON.stringify({
+        apps: [{ id: '1', key: 'key-1' }],
+      }));
+
+      expect(() => loadAppsFromFile(filePath)).toThrow();
+    });
+  });
+});
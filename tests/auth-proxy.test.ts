@@ -0,0 +1,170 @@
+/**
+ * Auth proxy tests - /auth and /user-auth delegated to a stub upstream
+ */
+
+import { createServer, type IncomingHttpHeaders, type Server } from 'http';
+import { httpServer } from '../src/http/http-server.js';
+import { authProxy } from '../src/auth-proxy/auth-proxy.js';
+import { appManager } from '../src/apps/app-manager.js';
+import { verifyAuth, verifyUserAuth } from '../src/utils/auth.js';
+import { config } from '../src/utils/config.js';
+
+const TEST_PORT = 3010;
+const UPSTREAM_PORT = 3011;
+
+interface UpstreamCall {
+  headers: IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+interface UpstreamAnswer {
+  status?: number;
+  body?: unknown;
+  delayMs?: number;
+}
+
+describe('Auth Proxy', () => {
+  let upstream: Server;
+  let calls: UpstreamCall[] = [];
+  let answer: (call: UpstreamCall) => UpstreamAnswer = () => ({ body: { allow: true } });
+  const originals = {
+    authProxyUrl: config.authProxyUrl,
+    authProxyTimeoutMs: config.authProxyTimeoutMs,
+    authProxyCacheTtlSec: config.authProxyCacheTtlSec,
+  };
+  const originalApp = appManager.getDefault();
+
+  const post = (path: string, body: Record<string, unknown>, cookie = 'session=alice') =>
+    fetch(`http://localhost:${TEST_PORT}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Cookie: cookie },
+      body: JSON.stringify(body),
+    });
+
+  beforeAll(async () => {
+    config.authProxyUrl = `http://localhost:${UPSTREAM_PORT}/pusher/authorize`;
+    config.authProxyTimeoutMs = 200;
+    config.authProxyCacheTtlSec = 30;
+    appManager.load([{ ...originalApp, authEndpointToken: 'only-for-backends' }]);
+
+    upstream = createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => {
+        raw += chunk;
+      });
+      req.on('end', () => {
+        const call = { headers: req.headers, body: JSON.parse(raw) };
+        calls.push(call);
+
+        const { status = 200, body, delayMs = 0 } = answer(call);
+        setTimeout(() => {
+          res.statusCode = status;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(body === undefined ? '' : JSON.stringify(body));
+        }, delayMs);
+      });
+    });
+    await new Promise<void>((resolve) => upstream.listen(UPSTREAM_PORT, resolve));
+
+    await httpServer.initialize();
+    await new Promise<void>((resolve) => httpServer.getServer().listen(TEST_PORT, resolve));
+  });
+
+  afterAll(async () => {
+    Object.assign(config, originals);
+    appManager.load([originalApp]);
+    await httpServer.shutdown();
+    upstream.closeAllConnections();
+    await new Promise<void>((resolve) => upstream.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    calls = [];
+    answer = () => ({ body: { allow: true } });
+    authProxy.clear();
+  });
+
+  test('should forward the caller and sign channels the upstream allows', async () => {
+    const response = await post('/auth', { socket_id: '1.1', channel_name: 'private-doc-1' });
+
+    expect(response.status).toBe(200);
+    const { auth } = (await response.json()) as { auth: string };
+    expect(verifyAuth(appManager.getDefault(), auth, '1.1', 'private-doc-1')).toBe(true);
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0].body).toEqual({
+      type: 'channel',
+      app_id: config.appId,
+      socket_id: '1.1',
+      channel_name: 'private-doc-1',
+    });
+    expect(calls[0].headers.cookie).toBe('session=alice');
+    expect(calls[0].headers['x-forwarded-for']).toBeDefined();
+  });
+
+  test('should sign presence channel_data from the upstream, not the client', async () => {
+    answer = () => ({ body: { allow: true, channel_data: { user_id: 'alice', user_info: { name: 'Alice' } } } });
+
+    const response = await post('/auth', {
+      socket_id: '1.1',
+      channel_name: 'presence-lobby',
+      channel_data: JSON.stringify({ user_id: 'mallory' }),
+    });
+
+    expect(response.status).toBe(200);
+    const { auth, channel_data } = (await response.json()) as { auth: string; channel_data: string };
+    expect(JSON.parse(channel_data)).toEqual({ user_id: 'alice', user_info: { name: 'Alice' } });
+    expect(verifyAuth(appManager.getDefault(), auth, '1.1', 'presence-lobby', channel_data)).toBe(true);
+  });
+
+  test('should refuse channels the upstream denies', async () => {
+    answer = ({ body }) => (body.channel_name === 'private-admin' ? { status: 403 } : { body: { allow: false } });
+
+    expect((await post('/auth', { socket_id: '1.1', channel_name: 'private-admin' })).status).toBe(403);
+    expect((await post('/auth', { socket_id: '1.1', channel_name: 'private-doc-1' })).status).toBe(403);
+  });
+
+  test('should cache answers per caller and channel', async () => {
+    await post('/auth', { socket_id: '1.1', channel_name: 'private-doc-1' });
+    expect((await post('/auth', { socket_id: '2.2', channel_name: 'private-doc-1' })).status).toBe(200);
+    expect(calls).toHaveLength(1);
+
+    await post('/auth', { socket_id: '1.1', channel_name: 'private-doc-1' }, 'session=bob');
+    await post('/auth', { socket_id: '1.1', channel_name: 'private-doc-2' });
+    expect(calls).toHaveLength(3);
+  });
+
+  test('should fail closed when the upstream is slow, broken or vague', async () => {
+    const attempt = () => post('/auth', { socket_id: '1.1', channel_name: 'presence-lobby' });
+
+    answer = () => ({ body: { allow: true, channel_data: { user_id: 'alice' } }, delayMs: 500 });
+    expect((await attempt()).status).toBe(503);
+
+    answer = () => ({ status: 500 });
+    expect((await attempt()).status).toBe(503);
+
+    // Allowed, but without saying who the presence member is
+    answer = () => ({ body: { allow: true } });
+    expect((await attempt()).status).toBe(503);
+
+    // Failures are not cached
+    answer = () => ({ body: { allow: true, channel_data: { user_id: 'alice' } } });
+    expect((await attempt()).status).toBe(200);
+    expect(calls).toHaveLength(4);
+  });
+
+  test('should sign user_data from the upstream for /user-auth', async () => {
+    answer = () => ({ body: { allow: true, user_data: { id: 'alice', watchlist: ['bob'] } } });
+
+    const response = await post('/user-auth', { socket_id: '1.1' });
+
+    expect(response.status).toBe(200);
+    const { auth, user_data } = (await response.json()) as { auth: string; user_data: string };
+    expect(JSON.parse(user_data)).toEqual({ id: 'alice', watchlist: ['bob'] });
+    expect(verifyUserAuth(appManager.getDefault(), auth, '1.1', user_data)).toBe(true);
+    expect(calls[0].body).toEqual({ type: 'user', app_id: config.appId, socket_id: '1.1' });
+
+    answer = () => ({ body: { allow: false } });
+    expect((await post('/user-auth', { socket_id: '1.1' }, 'session=mallory')).status).toBe(403);
+  });
+});
@@ -2,54 +2,111 @@
  * Authentication tests
  */
 
-import { generateAuth, verifyAuth, createAuthResponse } from '../src/utils/auth.js';
+import crypto from 'crypto';
+import {
+  generateAuth,
+  verifyAuth,
+  createAuthResponse,
+  generateUserAuth,
+  verifyUserAuth,
+  createUserAuthResponse,
+} from '../src/utils/auth.js';
 
-// Set test secret
-process.env.AUTH_SECRET = 'test-secret-key';
+const app = { key: 'test-key', secret: 'test-secret-key' };
 
 describe('Authentication', () => {
   describe('generateAuth', () => {
     test('should generate auth string in correct format', () => {
-      const auth = generateAuth('socket-123', 'private-user-456');
+      const auth = generateAuth(app, 'socket-123', 'private-user-456');
       expect(auth).toContain(':');
-      const [socketId, signature] = auth.split(':');
-      expect(socketId).toBe('socket-123');
+      const [key, signature] = auth.split(':');
+      expect(key).toBe('test-key');
       expect(signature).toMatch(/^[a-f0-9]{64}$/); // SHA256 hex
     });
 
+    test('should include channel_data in the signature', () => {
+      const channelData = JSON.stringify({ user_id: 'user-123' });
+      const auth1 = generateAuth(app, 'socket-123', 'presence-room-abc');
+      const auth2 = generateAuth(app, 'socket-123', 'presence-room-abc', channelData);
+      expect(auth1).not.toBe(auth2);
+    });
+
     test('should generate different signatures for different channels', () => {
-      const auth1 = generateAuth('socket-123', 'private-user-456');
-      const auth2 = generateAuth('socket-123', 'private-user-789');
+      const auth1 = generateAuth(app, 'socket-123', 'private-user-456');
+      const auth2 = generateAuth(app, 'socket-123', 'private-user-789');
       expect(auth1).not.toBe(auth2);
     });
 
     test('should generate different signatures for different sockets', () => {
-      const auth1 = generateAuth('socket-123', 'private-user-456');
-      const auth2 = generateAuth('socket-456', 'private-user-456');
+      const auth1 = generateAuth(app, 'socket-123', 'private-user-456');
+      const auth2 = generateAuth(app, 'socket-456', 'private-user-456');
       expect(auth1).not.toBe(auth2);
     });
   });
 
   describe('verifyAuth', () => {
     test('should verify valid auth token', () => {
-      const auth = generateAuth('socket-123', 'private-user-456');
-      expect(verifyAuth(auth, 'socket-123', 'private-user-456')).toBe(true);
+      const auth = generateAuth(app, 'socket-123', 'private-user-456');
+      expect(verifyAuth(app, auth, 'socket-123', 'private-user-456')).toBe(true);
     });
 
     test('should reject invalid signature', () => {
-      const auth = generateAuth('socket-123', 'private-user-456');
+      const auth = generateAuth(app, 'socket-123', 'private-user-456');
       const invalidAuth = auth.replace(/[a-f0-9]$/, 'x');
-      expect(verifyAuth(invalidAuth, 'socket-123', 'private-user-456')).toBe(false);
+      expect(verifyAuth(app, invalidAuth, 'socket-123', 'private-user-456')).toBe(false);
     });
 
     test('should reject auth with wrong socket ID', () => {
-      const auth = generateAuth('socket-123', 'private-user-456');
-      expect(verifyAuth(auth, 'socket-999', 'private-user-456')).toBe(false);
+      const auth = generateAuth(app, 'socket-123', 'private-user-456');
+      expect(verifyAuth(app, auth, 'socket-999', 'private-user-456')).toBe(false);
     });
 
     test('should reject auth with wrong channel', () => {
-      const auth = generateAuth('socket-123', 'private-user-456');
-      expect(verifyAuth(auth, 'socket-123', 'private-user-999')).toBe(false);
+      const auth = generateAuth(app, 'socket-123', 'private-user-456');
+      expect(verifyAuth(app, auth, 'socket-123', 'private-user-999')).toBe(false);
+    });
+
+    test('should reject auth with wrong app key', () => {
+      const [, signature] = generateAuth(app, 'socket-123', 'private-user-456').split(':');
+      expect(verifyAuth(app, `other-key:${signature}`, 'socket-123', 'private-user-456')).toBe(false);
+    });
+
+    test('should reject auth signed by another app', () => {
+      const otherApp = { key: 'test-key', secret: 'other-secret' };
+      const auth = generateAuth(otherApp, 'socket-123', 'private-user-456');
+      expect(verifyAuth(app, auth, 'socket-123', 'private-user-456')).toBe(false);
+    });
+
+    test('should verify presence auth with matching channel_data', () => {
+      const channelData = JSON.stringify({ user_id: 'user-123', user_info: { name: 'Alice' } });
+      const auth = generateAuth(app, 'socket-123', 'presence-room-abc', channelData);
+      expect(verifyAuth(app, auth, 'socket-123', 'presence-room-abc', channelData)).toBe(true);
+    });
+
+    test('should reject tampered presence channel_data', () => {
+      const channelData = JSON.stringify({ user_id: 'user-123' });
+      const auth = generateAuth(app, 'socket-123', 'presence-room-abc', channelData);
+      const forged = JSON.stringify({ user_id: 'admin' });
+      expect(verifyAuth(app, auth, 'socket-123', 'presence-room-abc', forged)).toBe(false);
+      expect(verifyAuth(app, auth, 'socket-123', 'presence-room-abc')).toBe(false);
+    });
+  });
+
+  describe('Pusher compatibility', () => {
+    // Credentials from the Pusher authentication signature reference
+    const pusherApp = { key: '278d425bdf160c739803', secret: '7ad3773142a6692b25b8' };
+
+    test('should match the reference private channel signature', () => {
+      expect(generateAuth(pusherApp, '1234.1234', 'private-foobar')).toBe(
+        '278d425bdf160c739803:58df8b0c36d6982b82c3ecf6b4662e34fe8c25bba48f5369f135bf843651c3a4'
+      );
+    });
+
+    test('should match the reference presence channel signature', () => {
+      const channelData = '{"user_id":10,"user_info":{"name":"Mr. Channels"}}';
+      expect(generateAuth(pusherApp, '1234.1234', 'presence-foobar', channelData)).toBe(
+        '278d425bdf160c739803:31935e7d86dba64c2a90aed31fdc61869f9b22ba9d8863bba239c03ca481bc80'
+      );
     });
   });
 
@@ -59,7 +116,7 @@ describe('Authentication', () => {
         socket_id: 'socket-123',
         channel_name: 'private-user-456',
       };
-      const response = createAuthResponse(request);
+      const response = createAuthResponse(app, request);
       expect(response.auth).toBeDefined();
       expect(response.auth).toContain(':');
     });
@@ -70,9 +127,66 @@ describe('Authentication', () => {
         channel_name: 'presence-room-abc',
         channel_data: JSON.stringify({ user_id: 'user-123' }),
       };
-      const response = createAuthResponse(request);
+      const response = createAuthResponse(app, request);
       expect(response.auth).toBeDefined();
       expect(response.channel_data).toBe(request.channel_data);
+      expect(verifyAuth(app, response.auth, 'socket-123', 'presence-room-abc', request.channel_data)).toBe(true);
+    });
+
+    test('should not sign channel_data for private channels', () => {
+      const response = createAuthResponse(app, {
+        socket_id: 'socket-123',
+        channel_name: 'private-user-456',
+        channel_data: JSON.stringify({ user_id: 'user-123' }),
+      });
+      expect(response.channel_data).toBeUndefined();
+      expect(verifyAuth(app, response.auth, 'socket-123', 'private-user-456')).toBe(true);
+    });
+
+    test('should include the channel shared secret for encrypted channels', () => {
+      const masterKey = Buffer.from('This is a string that is 32 chars');
+      const encryptedApp = { ...app, encryptionMasterKey: masterKey.subarray(0, 32).toString('base64') };
+
+      const response = createAuthResponse(encryptedApp, {
+        socket_id: 'socket-123',
+        channel_name: 'private-encrypted-dm-1',
+      });
+
+      const expected = crypto
+        .createHash('sha256')
+        .update(Buffer.concat([Buffer.from('private-encrypted-dm-1'), masterKey.subarray(0, 32)]))
+        .digest('base64');
+      expect(response.shared_secret).toBe(expected);
+      expect(verifyAuth(app, response.auth, 'socket-123', 'private-encrypted-dm-1')).toBe(true);
+    });
+
+    test('should refuse encrypted channels without a master key', () => {
+      expect(() =>
+        createAuthResponse(app, { socket_id: 'socket-123', channel_name: 'private-encrypted-dm-1' })
+      ).toThrow('Encryption master key');
+    });
+  });
+
+  describe('user authentication', () => {
+    const userData = JSON.stringify({ id: 'user-123' });
+
+    test('should sign socket_id::user::user_data', () => {
+      const expected = crypto.createHmac('sha256', app.secret).update(`1234.1234::user::${userData}`).digest('hex');
+      expect(generateUserAuth(app, '1234.1234', userData)).toBe(`${app.key}:${expected}`);
+    });
+
+    test('should verify the signed user data only', () => {
+      const { auth, user_data } = createUserAuthResponse(app, { socket_id: '1234.1234', user_data: userData });
+
+      expect(user_data).toBe(userData);
+      expect(verifyUserAuth(app, auth, '1234.1234', userData)).toBe(true);
+      expect(verifyUserAuth(app, auth, '1234.1234', JSON.stringify({ id: 'admin' }))).toBe(false);
+      expect(verifyUserAuth(app, auth, '9999.9999', userData)).toBe(false);
+    });
+
+    test('should not accept a channel signature as a user signature', () => {
+      const channelAuth = generateAuth(app, '1234.1234', userData);
+      expect(verifyUserAuth(app, channelAuth, '1234.1234', userData)).toBe(false);
     });
   });
 });
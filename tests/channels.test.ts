@@ -2,8 +2,9 @@
  * Channel management tests
  */
 
-import { channelManager } from '../src/channels/channel-manager.js';
-import { getChannelType, isValidChannelName, requiresAuth } from '../src/utils/channel-utils.js';
+import { ChannelManager } from '../src/channels/channel-manager.js';
+import { getChannelType, isCacheChannel, isValidChannelName, matchesChannelPattern, requiresAuth } from '../src/utils/channel-utils.js';
+import { config } from '../src/utils/config.js';
 
 describe('Channel Utils', () => {
   describe('getChannelType', () => {
@@ -17,6 +18,10 @@ describe('Channel Utils', () => {
       expect(getChannelType('private-room-abc')).toBe('private');
     });
 
+    test('should identify encrypted channels', () => {
+      expect(getChannelType('private-encrypted-dm-1')).toBe('private-encrypted');
+    });
+
     test('should identify presence channels', () => {
       expect(getChannelType('presence-room-abc')).toBe('presence');
       expect(getChannelType('presence-chat')).toBe('presence');
@@ -28,6 +33,8 @@ describe('Channel Utils', () => {
       expect(isValidChannelName('public-chat')).toBe(true);
       expect(isValidChannelName('private-user-123')).toBe(true);
       expect(isValidChannelName('presence-room-abc')).toBe(true);
+      expect(isValidChannelName('private-encrypted-dm-1')).toBe(true);
+      expect(isValidChannelName('cache-scores')).toBe(true);
     });
 
     test('should reject invalid channel names', () => {
@@ -35,12 +42,14 @@ describe('Channel Utils', () => {
       expect(isValidChannelName('chat')).toBe(false);
       expect(isValidChannelName('')).toBe(false);
       expect(isValidChannelName('public-')).toBe(false);
+      expect(isValidChannelName('private-encrypted-')).toBe(false);
     });
   });
 
   describe('requiresAuth', () => {
     test('should require auth for private channels', () => {
       expect(requiresAuth('private-user-123')).toBe(true);
+      expect(requiresAuth('private-encrypted-dm-1')).toBe(true);
     });
 
     test('should require auth for presence channels', () => {
@@ -49,11 +58,44 @@ describe('Channel Utils', () => {
 
     test('should not require auth for public channels', () => {
       expect(requiresAuth('public-chat')).toBe(false);
+      expect(requiresAuth('cache-scores')).toBe(false);
+    });
+  });
+
+  describe('matchesChannelPattern', () => {
+    test('should match exact names and wildcards', () => {
+      expect(matchesChannelPattern('private-doc-1', 'private-doc-1')).toBe(true);
+      expect(matchesChannelPattern('private-doc-*', 'private-doc-42')).toBe(true);
+      expect(matchesChannelPattern('*', 'presence-lobby')).toBe(true);
+      expect(matchesChannelPattern('private-doc-*', 'private-docs')).toBe(false);
+      expect(matchesChannelPattern('private-doc-1', 'private-doc-10')).toBe(false);
+    });
+
+    test('should treat other characters literally', () => {
+      expect(matchesChannelPattern('private-a.b', 'private-a.b')).toBe(true);
+      expect(matchesChannelPattern('private-a.b', 'private-axb')).toBe(false);
+    });
+  });
+
+  describe('isCacheChannel', () => {
+    test('should identify cache channels of every type', () => {
+      expect(isCacheChannel('cache-scores')).toBe(true);
+      expect(isCacheChannel('private-cache-doc-1')).toBe(true);
+      expect(isCacheChannel('private-encrypted-cache-dm-1')).toBe(true);
+      expect(isCacheChannel('presence-cache-room')).toBe(true);
+      expect(getChannelType('presence-cache-room')).toBe('presence');
+    });
+
+    test('should not treat other channels as cache channels', () => {
+      expect(isCacheChannel('public-cache')).toBe(false);
+      expect(isCacheChannel('private-doc-cache-1')).toBe(false);
     });
   });
 });
 
 describe('Channel Manager', () => {
+  const channelManager = new ChannelManager();
+
   beforeEach(() => {
     channelManager.clear();
   });
@@ -131,4 +173,101 @@ describe('Channel Manager', () => {
       expect(channelManager.getChannel('public-other')).toBeDefined();
     });
   });
+
+  describe('event cache', () => {
+    const originalTtl = config.cacheTtlSec;
+
+    afterEach(() => {
+      config.cacheTtlSec = originalTtl;
+    });
+
+    test('should keep the last event after the channel empties', () => {
+      channelManager.subscribe('cache-scores', 'socket-1');
+      channelManager.setCachedEvent('cache-scores', { event: 'score', data: 1, channel: 'cache-scores' });
+      channelManager.setCachedEvent('cache-scores', { event: 'score', data: 2, channel: 'cache-scores' });
+      channelManager.unsubscribe('cache-scores', 'socket-1');
+
+      expect(channelManager.getCachedEvent('cache-scores')?.data).toBe(2);
+    });
+
+    test('should expire cached events after the TTL', () => {
+      config.cacheTtlSec = 0;
+      channelManager.setCachedEvent('cache-scores', { event: 'score', data: 1, channel: 'cache-scores' });
+
+      expect(channelManager.getCachedEvent('cache-scores')).toBeUndefined();
+    });
+  });
+
+  describe('replicated counts', () => {
+    test('should count subscribers on every node', () => {
+      channelManager.subscribe('public-chat', 'socket-1');
+      channelManager.setNodeCount('public-chat', 'node-b', 2);
+      channelManager.setNodeCount('public-remote', 'node-b', 1);
+
+      expect(channelManager.getSubscriberCount('public-chat')).toBe(3);
+      expect(channelManager.isOccupied('public-remote')).toBe(true);
+      expect(channelManager.getOccupiedChannels().sort()).toEqual(['public-chat', 'public-remote']);
+      expect(channelManager.getLocalCounts()).toEqual([{ channelName: 'public-chat', subscriberCount: 1 }]);
+    });
+
+    test('should report the channels a departed node leaves empty', () => {
+      channelManager.subscribe('public-chat', 'socket-1');
+      channelManager.setNodeCount('public-chat', 'node-b', 1);
+      channelManager.setNodeCount('public-remote', 'node-b', 1);
+
+      expect(channelManager.removeNode('node-b')).toEqual(['public-remote']);
+      expect(channelManager.getSubscriberCount('public-chat')).toBe(1);
+    });
+
+    test('should replace a node\'s counts with its snapshot', () => {
+      channelManager.setNodeCount('public-kept', 'node-b', 1);
+      channelManager.setNodeCount('public-gone', 'node-b', 1);
+
+      const changes = channelManager.replaceNode('node-b', [
+        { channelName: 'public-kept', subscriberCount: 3 },
+        { channelName: 'public-new', subscriberCount: 1 },
+      ]);
+
+      expect(changes).toEqual({ occupied: ['public-new'], vacated: ['public-gone'] });
+      expect(channelManager.getSubscriberCount('public-kept')).toBe(3);
+    });
+  });
+
+  describe('listener', () => {
+    test('should report occupied and vacated only when crossing zero subscribers', () => {
+      const events: string[] = [];
+      const manager = new ChannelManager({
+        onChannelOccupied: (channel) => events.push(`occupied:${channel}`),
+        onChannelVacated: (channel) => events.push(`vacated:${channel}`),
+      });
+
+      manager.subscribe('public-chat', 'socket-1');
+      manager.subscribe('public-chat', 'socket-2');
+      manager.subscribe('public-chat', 'socket-2');
+      manager.unsubscribe('public-chat', 'socket-1');
+      manager.unsubscribe('public-chat', 'socket-1');
+      expect(events).toEqual(['occupied:public-chat']);
+
+      manager.unsubscribeFromAll('socket-2');
+      expect(events).toEqual(['occupied:public-chat', 'vacated:public-chat']);
+    });
+
+    test('should only report occupancy changes for the whole cluster', () => {
+      const events: string[] = [];
+      const manager = new ChannelManager({
+        onChannelOccupied: (channel) => events.push(`occupied:${channel}`),
+        onChannelVacated: (channel) => events.push(`vacated:${channel}`),
+      });
+
+      manager.setNodeCount('public-chat', 'node-b', 2);
+      manager.subscribe('public-chat', 'socket-1');
+      manager.unsubscribe('public-chat', 'socket-1');
+      expect(events).toEqual([]);
+
+      manager.setNodeCount('public-chat', 'node-b', 0);
+      manager.subscribe('public-chat', 'socket-1');
+      manager.unsubscribe('public-chat', 'socket-1');
+      expect(events).toEqual(['occupied:public-chat', 'vacated:public-chat']);
+    });
+  });
 });
@@ -0,0 +1,33 @@
+/**
+ * Client IP resolution tests
+ */
+
+import { getClientIp, isTrustedProxy } from '../src/utils/client-ip.js';
+import { config } from '../src/utils/config.js';
+
+describe('Client IP', () => {
+  const originalProxies = config.trustedProxies;
+
+  afterEach(() => {
+    config.trustedProxies = originalProxies;
+  });
+
+  test('should ignore X-Forwarded-For when no proxy is trusted', () => {
+    expect(getClientIp('198.51.100.1', '203.0.113.7')).toBe('198.51.100.1');
+    expect(getClientIp('::ffff:198.51.100.1', undefined)).toBe('198.51.100.1');
+    expect(getClientIp(undefined, '203.0.113.7')).toBe('unknown');
+  });
+
+  test('should take the first untrusted hop behind trusted proxies', () => {
+    config.trustedProxies = ['10.0.0.0/8', '127.0.0.1'];
+
+    expect(isTrustedProxy('::ffff:10.1.2.3')).toBe(true);
+    expect(isTrustedProxy('198.51.100.1')).toBe(false);
+
+    // Spoofed leftmost entries are never reached
+    expect(getClientIp('127.0.0.1', '1.2.3.4, 203.0.113.7, 10.0.0.5')).toBe('203.0.113.7');
+    expect(getClientIp('127.0.0.1', ['1.2.3.4', '203.0.113.7'])).toBe('203.0.113.7');
+    expect(getClientIp('198.51.100.1', '203.0.113.7')).toBe('198.51.100.1');
+    expect(getClientIp('10.0.0.5', '10.0.0.6')).toBe('10.0.0.6');
+  });
+});
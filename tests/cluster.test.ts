@@ -0,0 +1,300 @@
+/**
+ * Cluster-wide channel and presence tests (several nodes sharing one in-memory bus)
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse, type Server } from 'http';
+import { MemoryAdapter, type AdapterMessage } from '../src/adapters/broadcast-adapter.js';
+import { WebSocketServerManager } from '../src/ws/websocket-server.js';
+import { AppManager, appManager } from '../src/apps/app-manager.js';
+import { createAuthResponse, createUserAuthResponse } from '../src/utils/auth.js';
+import { config } from '../src/utils/config.js';
+import { connectClient, subscribeClient, signinClient, waitForMessage, type TestClient } from './helpers.js';
+import type { PresenceData, PresenceMember, WatchlistEvent } from '../src/types/index.js';
+
+/**
+ * Adapter that can lose messages, or stop talking without saying goodbye like a crashed node
+ */
+class CrashableAdapter extends MemoryAdapter {
+  dropped: AdapterMessage['type'][] = [];
+
+  publish(message: AdapterMessage): void {
+    if (!this.dropped.includes(message.type)) {
+      super.publish(message);
+    }
+  }
+
+  crash(): Promise<void> {
+    return this.shutdown();
+  }
+}
+
+interface TestNode {
+  port: number;
+  server: Server;
+  apps: AppManager;
+  manager: WebSocketServerManager;
+  adapter: CrashableAdapter;
+}
+
+const app = appManager.getDefault();
+const nodes: TestNode[] = [];
+const clients: TestClient[] = [];
+
+/**
+ * Minimal /auth and /user-auth so clients can be signed without the HTTP server
+ */
+function handleAuth(req: IncomingMessage, res: ServerResponse): void {
+  let body = '';
+  req.on('data', (chunk) => {
+    body += chunk;
+  });
+  req.on('end', () => {
+    res.setHeader('Content-Type', 'application/json');
+    const request = JSON.parse(body);
+    const response = req.url === '/user-auth'
+      ? createUserAuthResponse(app, request)
+      : createAuthResponse(app, request);
+    res.end(JSON.stringify(response));
+  });
+}
+
+async function startNode(port: number): Promise<TestNode> {
+  const server = createServer(handleAuth);
+  const apps = new AppManager([app]);
+  const manager = new WebSocketServerManager(apps);
+  const adapter = new CrashableAdapter(`node-${port}`);
+
+  await adapter.connect();
+  manager.initialize(server, adapter);
+  await new Promise<void>((resolve) => server.listen(port, () => resolve()));
+
+  const node = { port, server, apps, manager, adapter };
+  nodes.push(node);
+  return node;
+}
+
+async function joinPresence(node: TestNode, channel: string, userId: string) {
+  const client = await connectClient(`ws://localhost:${node.port}/ws`);
+  clients.push(client);
+  const result = await subscribeClient(client, node.port, channel, { user_id: userId });
+  return { client, result };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('Cluster Presence', () => {
+  const originals = {
+    nodeHeartbeatMs: config.nodeHeartbeatMs,
+    nodeTimeoutMs: config.nodeTimeoutMs,
+  };
+
+  beforeAll(() => {
+    config.nodeHeartbeatMs = 50;
+    config.nodeTimeoutMs = 200;
+  });
+
+  afterAll(async () => {
+    for (const client of clients) {
+      client.ws.close();
+    }
+    for (const node of nodes) {
+      await node.manager.shutdown();
+      await new Promise<void>((resolve) => node.server.close(() => resolve()));
+    }
+    Object.assign(config, originals);
+  });
+
+  test('should include members connected to other nodes in subscription data', async () => {
+    const nodeA = await startNode(3007);
+    const nodeB = await startNode(3008);
+    await sleep(100);
+
+    const alice = await joinPresence(nodeA, 'presence-lobby', 'alice');
+    const memberAdded = waitForMessage(alice.client, (message) => message.event === 'pusher_internal:member_added');
+    const bob = await joinPresence(nodeB, 'presence-lobby', 'bob');
+
+    const { presence } = bob.result.data as PresenceData;
+    expect(presence.count).toBe(2);
+    expect(Object.keys(presence.hash).sort()).toEqual(['alice', 'bob']);
+    expect(((await memberAdded).data as PresenceMember).user_id).toBe('bob');
+  });
+
+  test('should sync existing members to a node that joins later', async () => {
+    const nodeC = await startNode(3009);
+    await sleep(100);
+
+    const carol = await joinPresence(nodeC, 'presence-lobby', 'carol');
+    expect(Object.keys((carol.result.data as PresenceData).presence.hash).sort()).toEqual(['alice', 'bob', 'carol']);
+  });
+
+  test('should repair presence updates that never reached other nodes', async () => {
+    const [nodeA, nodeB] = nodes;
+    const watcher = await joinPresence(nodeA, 'presence-lossy', 'watcher');
+    const ghost = await joinPresence(nodeB, 'presence-lossy', 'ghost');
+
+    const contextA = nodeA.apps.getContext(app);
+    expect(contextA.presence.getUserIds('presence-lossy').sort()).toEqual(['ghost', 'watcher']);
+
+    // Both the leave and its member_removed broadcast get lost
+    const memberRemoved = waitForMessage(
+      watcher.client,
+      (message) => message.event === 'pusher_internal:member_removed' && (message.data as PresenceMember).user_id === 'ghost'
+    );
+    nodeB.adapter.dropped = ['presence_leave', 'publish'];
+    try {
+      ghost.client.ws.close();
+      await memberRemoved;
+    } finally {
+      nodeB.adapter.dropped = [];
+    }
+
+    expect(contextA.presence.getUserIds('presence-lossy')).toEqual(['watcher']);
+  });
+
+  test('should count channel subscribers on every node', async () => {
+    const [nodeA, nodeB] = nodes;
+    const local = await connectClient(`ws://localhost:${nodeA.port}/ws`);
+    const remote = await connectClient(`ws://localhost:${nodeB.port}/ws`);
+    clients.push(local, remote);
+    await subscribeClient(local, nodeA.port, 'public-shared');
+    await subscribeClient(remote, nodeB.port, 'public-shared');
+    await sleep(20);
+
+    const contextA = nodeA.apps.getContext(app);
+    expect(contextA.channels.getSubscriberCount('public-shared')).toBe(2);
+
+    remote.ws.close();
+    await sleep(20);
+    expect(contextA.channels.getSubscriberCount('public-shared')).toBe(1);
+  });
+
+  test('should repair subscriber counts that never reached other nodes', async () => {
+    const [nodeA, nodeB] = nodes;
+    const remote = await connectClient(`ws://localhost:${nodeB.port}/ws`);
+    clients.push(remote);
+    await subscribeClient(remote, nodeB.port, 'public-lossy');
+    await sleep(20);
+
+    const contextA = nodeA.apps.getContext(app);
+    expect(contextA.channels.isOccupied('public-lossy')).toBe(true);
+
+    nodeB.adapter.dropped = ['channel_count'];
+    try {
+      remote.ws.close();
+      await sleep(20);
+      expect(contextA.channels.isOccupied('public-lossy')).toBe(true);
+
+      await sleep(config.nodeHeartbeatMs * 2);
+      expect(contextA.channels.isOccupied('public-lossy')).toBe(false);
+    } finally {
+      nodeB.adapter.dropped = [];
+    }
+  });
+
+  test('should deliver user events to the user\'s sockets on every node', async () => {
+    const [nodeA, nodeB] = nodes;
+    const phone = await connectClient(`ws://localhost:${nodeB.port}/ws`);
+    clients.push(phone);
+    await signinClient(phone, nodeB.port, { id: 'dana' });
+
+    const received = waitForMessage(phone, (message) => message.event === 'ping-user');
+    expect(nodeA.manager.sendToUser(app, 'dana', 'ping-user', { n: 1 })).toBe(0);
+
+    expect((await received).data).toEqual({ n: 1 });
+  });
+
+  test('should terminate the user\'s sockets on every node', async () => {
+    const [nodeA, nodeB] = nodes;
+    const laptop = await connectClient(`ws://localhost:${nodeB.port}/ws`);
+    clients.push(laptop);
+    await signinClient(laptop, nodeB.port, { id: 'eve' });
+
+    const closed = new Promise<number>((resolve) => laptop.ws.once('close', (code) => resolve(code)));
+    nodeA.manager.terminateUserConnections(app, 'eve');
+
+    expect(await closed).toBe(4009);
+  });
+
+  test('should report watched users signed in on other nodes', async () => {
+    const [nodeA, , nodeC] = nodes;
+    const friend = await connectClient(`ws://localhost:${nodeC.port}/ws`);
+    clients.push(friend);
+    await signinClient(friend, nodeC.port, { id: 'frank' });
+
+    const watcher = await connectClient(`ws://localhost:${nodeA.port}/ws`);
+    clients.push(watcher);
+    const initial = waitForMessage(watcher, (message) => message.event === 'pusher_internal:watchlist_events');
+    await signinClient(watcher, nodeA.port, { id: 'wendy', watchlist: ['frank'] });
+    expect(((await initial).data as { events: WatchlistEvent[] }).events).toEqual([{ name: 'online', user_ids: ['frank'] }]);
+
+    const offline = waitForMessage(watcher, (message) => message.event === 'pusher_internal:watchlist_events');
+    friend.ws.close();
+    expect(((await offline).data as { events: WatchlistEvent[] }).events).toEqual([{ name: 'offline', user_ids: ['frank'] }]);
+  });
+
+  test('should repair online status updates that never reached other nodes', async () => {
+    const [nodeA, nodeB] = nodes;
+    const friend = await connectClient(`ws://localhost:${nodeB.port}/ws`);
+    clients.push(friend);
+    await signinClient(friend, nodeB.port, { id: 'gina' });
+
+    const watcher = await connectClient(`ws://localhost:${nodeA.port}/ws`);
+    clients.push(watcher);
+    const initial = waitForMessage(watcher, (message) => message.event === 'pusher_internal:watchlist_events');
+    await signinClient(watcher, nodeA.port, { id: 'walt', watchlist: ['gina'] });
+    expect(((await initial).data as { events: WatchlistEvent[] }).events).toEqual([{ name: 'online', user_ids: ['gina'] }]);
+
+    const offline = waitForMessage(watcher, (message) => message.event === 'pusher_internal:watchlist_events');
+    nodeB.adapter.dropped = ['user_offline'];
+    try {
+      friend.ws.close();
+      expect(((await offline).data as { events: WatchlistEvent[] }).events).toEqual([{ name: 'offline', user_ids: ['gina'] }]);
+    } finally {
+      nodeB.adapter.dropped = [];
+    }
+  });
+
+  test('should expire members of a crashed node and notify survivors', async () => {
+    const [nodeA, , nodeC] = nodes;
+    const watcher = await joinPresence(nodeA, 'presence-crash', 'watcher');
+    const doomed = await joinPresence(nodeC, 'presence-crash', 'doomed');
+    await signinClient(doomed.client, nodeC.port, { id: 'doomed' });
+    await signinClient(watcher.client, nodeA.port, { id: 'watcher', watchlist: ['doomed'] });
+
+    const contextA = nodeA.apps.getContext(app);
+    expect(contextA.presence.getUserIds('presence-crash').sort()).toEqual(['doomed', 'watcher']);
+
+    const memberRemoved = waitForMessage(
+      watcher.client,
+      (message) => message.event === 'pusher_internal:member_removed' && (message.data as PresenceMember).user_id === 'doomed',
+      3000
+    );
+    const offline = waitForMessage(
+      watcher.client,
+      (message) => message.event === 'pusher_internal:watchlist_events' && (message.data as { events: WatchlistEvent[] }).events[0].name === 'offline',
+      3000
+    );
+    await nodeC.adapter.crash();
+
+    await memberRemoved;
+    expect(((await offline).data as { events: WatchlistEvent[] }).events).toEqual([{ name: 'offline', user_ids: ['doomed'] }]);
+    expect(contextA.presence.getUserIds('presence-crash')).toEqual(['watcher']);
+    expect(nodeA.adapter.getNodes()).not.toContain(nodeC.adapter.nodeId);
+  });
+
+  test('should remove members immediately when a node shuts down cleanly', async () => {
+    const [nodeA, nodeB] = nodes;
+    await joinPresence(nodeB, 'presence-clean', 'leaving');
+
+    const contextA = nodeA.apps.getContext(app);
+    expect(contextA.presence.getUserIds('presence-clean')).toEqual(['leaving']);
+
+    await nodeB.manager.shutdown();
+    await sleep(50);
+
+    expect(contextA.presence.getUserIds('presence-clean')).toEqual([]);
+    expect(nodeA.adapter.getNodes()).not.toContain(nodeB.adapter.nodeId);
+  });
+});
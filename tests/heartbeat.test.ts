@@ -0,0 +1,94 @@
+/**
+ * Heartbeat and idle connection reaping tests
+ */
+
+import { WebSocket } from 'ws';
+import { createServer } from 'http';
+import { wsServer } from '../src/ws/websocket-server.js';
+import { httpServer } from '../src/http/http-server.js';
+import { appManager } from '../src/apps/app-manager.js';
+import { config } from '../src/utils/config.js';
+import { connectClient, subscribeClient, waitForMessage } from './helpers.js';
+
+const TEST_PORT = 3003;
+const WS_URL = `ws://localhost:${TEST_PORT}/ws`;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('Heartbeat', () => {
+  let server: ReturnType<typeof createServer>;
+  const originalActivityTimeout = config.activityTimeout;
+  const originalPongTimeout = config.pongTimeout;
+
+  beforeAll(async () => {
+    config.activityTimeout = 1;
+    config.pongTimeout = 1;
+
+    await httpServer.initialize();
+    server = httpServer.getServer();
+    wsServer.initialize(server);
+
+    await new Promise<void>((resolve) => {
+      server.listen(TEST_PORT, () => {
+        resolve();
+      });
+    });
+  });
+
+  afterAll(async () => {
+    config.activityTimeout = originalActivityTimeout;
+    config.pongTimeout = originalPongTimeout;
+    await wsServer.shutdown();
+    await httpServer.shutdown();
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+    });
+  });
+
+  test('should ping idle connections and keep them when they answer', async () => {
+    const client = await connectClient(WS_URL);
+
+    await sleep(3000);
+
+    expect(client.messages.some((message) => message.event === 'pusher:ping')).toBe(true);
+    expect(client.ws.readyState).toBe(WebSocket.OPEN);
+    client.ws.close();
+  }, 10000);
+
+  test('should accept protocol-level pongs as liveness', async () => {
+    // Ignores pusher:ping, but the ws client answers ping frames automatically
+    const client = await connectClient(WS_URL, { answerPings: false });
+
+    await sleep(3000);
+
+    expect(client.ws.readyState).toBe(WebSocket.OPEN);
+    client.ws.close();
+  }, 10000);
+
+  test('should close unresponsive connections and clean up presence', async () => {
+    const watcher = await connectClient(WS_URL);
+    const ghost = await connectClient(WS_URL, { autoPong: false, answerPings: false });
+
+    await subscribeClient(watcher, TEST_PORT, 'presence-lobby', { user_id: 'user-watcher' });
+    await subscribeClient(ghost, TEST_PORT, 'presence-lobby', { user_id: 'user-ghost' });
+
+    const context = appManager.getContext(appManager.getDefault());
+    expect(context.presence.getMemberCount('presence-lobby')).toBe(2);
+
+    const closed = new Promise<number>((resolve) => ghost.ws.on('close', (code) => resolve(code)));
+    const memberRemoved = waitForMessage(
+      watcher,
+      (message) => message.event === 'pusher_internal:member_removed',
+      5000
+    );
+
+    expect(await closed).toBe(4201);
+    expect((await memberRemoved).data).toEqual({ user_id: 'user-ghost' });
+    expect(context.presence.getMemberCount('presence-lobby')).toBe(1);
+    expect(wsServer.getStats().connections).toBe(1);
+
+    watcher.ws.close();
+  }, 10000);
+});
@@ -0,0 +1,206 @@
+/**
+ * Shared test helpers
+ */
+
+import crypto from 'crypto';
+import { WebSocket } from 'ws';
+import { signRestRequest } from '../src/utils/rest-auth.js';
+import { appManager } from '../src/apps/app-manager.js';
+import type { AppCredentials } from '../src/types/index.js';
+
+/**
+ * data of a pusher:error message
+ */
+export interface ErrorData {
+  code: number;
+  message: string;
+}
+
+export interface TestMessage {
+  event: string;
+  data?: unknown;
+  channel?: string;
+  user_id?: string;
+  seq?: number;
+}
+
+export interface TestClient {
+  ws: WebSocket;
+  socketId: string;
+  messages: TestMessage[];
+}
+
+/**
+ * Send a REST request signed with an app's credentials (default app if omitted)
+ */
+export function signedFetch(
+  port: number,
+  method: string,
+  path: string,
+  body?: unknown,
+  query: Record<string, string> = {},
+  app: AppCredentials = appManager.getDefault()
+): Promise<Response> {
+  const rawBody = body === undefined ? undefined : JSON.stringify(body);
+  const signedQuery = signRestRequest({ method, path, query, body: rawBody }, app);
+
+  return fetch(`http://localhost:${port}${path}?${new URLSearchParams(signedQuery)}`, {
+    method,
+    headers: rawBody ? { 'Content-Type': 'application/json' } : undefined,
+    body: rawBody,
+  });
+}
+
+/**
+ * Sign a JWT: HS256 with a string secret, RS256/ES256 with a private key
+ */
+export function signJwt(
+  claims: Record<string, unknown>,
+  key: string | crypto.KeyObject,
+  header: Record<string, unknown> = {}
+): string {
+  const alg = typeof key === 'string' ? 'HS256' : key.asymmetricKeyType === 'ec' ? 'ES256' : 'RS256';
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const signingInput = `${encode({ alg, typ: 'JWT', ...header })}.${encode(claims)}`;
+
+  const signature =
+    typeof key === 'string'
+      ? crypto.createHmac('sha256', key).update(signingInput).digest()
+      : crypto.sign('sha256', Buffer.from(signingInput), { key, dsaEncoding: 'ieee-p1363' });
+
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Connect and wait for pusher:connection_established
+ * Clients answer pusher:ping unless answerPings is false
+ */
+export function connectClient(
+  url: string,
+  options: { autoPong?: boolean; answerPings?: boolean } = {}
+): Promise<TestClient> {
+  const { autoPong = true, answerPings = true } = options;
+
+  return new Promise((resolve, reject) => {
+    const ws = new WebSocket(url, { autoPong });
+    const client: TestClient = { ws, socketId: '', messages: [] };
+
+    ws.on('error', reject);
+    ws.on('message', (data) => {
+      const message = JSON.parse(data.toString()) as TestMessage;
+      client.messages.push(message);
+
+      if (message.event === 'pusher:connection_established') {
+        client.socketId = JSON.parse(message.data as string).socket_id;
+        resolve(client);
+      } else if (message.event === 'pusher:ping' && answerPings) {
+        ws.send(JSON.stringify({ event: 'pusher:pong', data: {} }));
+      }
+    });
+  });
+}
+
+/**
+ * Wait for the next message matching a predicate
+ */
+export function waitForMessage(
+  client: TestClient,
+  predicate: (message: TestMessage) => boolean,
+  timeoutMs = 2000
+): Promise<TestMessage> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      client.ws.off('message', onMessage);
+      reject(new Error('Timed out waiting for message'));
+    }, timeoutMs);
+
+    const onMessage = (data: Buffer) => {
+      const message = JSON.parse(data.toString()) as TestMessage;
+      if (predicate(message)) {
+        clearTimeout(timer);
+        client.ws.off('message', onMessage);
+        resolve(message);
+      }
+    };
+
+    client.ws.on('message', onMessage);
+  });
+}
+
+/**
+ * Resolve true if no matching message arrives within the window
+ */
+export async function expectNoMessage(
+  client: TestClient,
+  predicate: (message: TestMessage) => boolean,
+  windowMs = 200
+): Promise<void> {
+  await expect(waitForMessage(client, predicate, windowMs)).rejects.toThrow('Timed out');
+}
+
+/**
+ * Subscribe to a channel (fetching auth from /auth for private/presence channels)
+ * and wait for the subscription result
+ */
+export async function subscribeClient(
+  client: TestClient,
+  port: number,
+  channel: string,
+  channelData?: Record<string, unknown>,
+  appKey?: string
+): Promise<TestMessage> {
+  const data: Record<string, unknown> = { channel };
+
+  if (channel.startsWith('private-') || channel.startsWith('presence-')) {
+    const response = await fetch(`http://localhost:${port}/auth`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        socket_id: client.socketId,
+        channel_name: channel,
+        channel_data: channelData ? JSON.stringify(channelData) : undefined,
+        app_key: appKey,
+      }),
+    });
+    const auth = (await response.json()) as { auth: string; channel_data?: string };
+    data.auth = auth.auth;
+    data.channel_data = auth.channel_data;
+  }
+
+  const result = waitForMessage(
+    client,
+    (message) =>
+      (message.event === 'pusher_internal:subscription_succeeded' && message.channel === channel) ||
+      message.event === 'pusher:error'
+  );
+  client.ws.send(JSON.stringify({ event: 'pusher:subscribe', data }));
+  return result;
+}
+
+/**
+ * Sign in as a user (fetching auth from /user-auth) and wait for the result
+ */
+export async function signinClient(
+  client: TestClient,
+  port: number,
+  userData: Record<string, unknown>,
+  appKey?: string
+): Promise<TestMessage> {
+  const response = await fetch(`http://localhost:${port}/user-auth`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      socket_id: client.socketId,
+      user_data: JSON.stringify(userData),
+      app_key: appKey,
+    }),
+  });
+  const auth = (await response.json()) as { auth: string; user_data: string };
+
+  const result = waitForMessage(
+    client,
+    (message) => message.event === 'pusher:signin_success' || message.event === 'pusher:error'
+  );
+  client.ws.send(JSON.stringify({ event: 'pusher:signin', data: auth }));
+  return result;
+}
@@ -0,0 +1,94 @@
+/**
+ * Message history tests
+ */
+
+import { HistoryManager } from '../src/history/history-manager.js';
+import { config } from '../src/utils/config.js';
+
+describe('History Manager', () => {
+  const historyManager = new HistoryManager();
+  const originals = {
+    historySize: config.historySize,
+    historyTtlSec: config.historyTtlSec,
+  };
+
+  const publish = (channel: string, data: unknown) =>
+    historyManager.record(channel, { event: 'update', data, channel });
+
+  beforeEach(() => {
+    config.historySize = 3;
+    config.historyTtlSec = 300;
+    historyManager.clear();
+  });
+
+  afterAll(() => {
+    Object.assign(config, originals);
+  });
+
+  describe('isEnabled', () => {
+    test('should be off across several nodes', () => {
+      const originalRedis = config.redis;
+      expect(historyManager.isEnabled()).toBe(true);
+
+      config.redis = { ...config.redis!, enabled: true };
+      try {
+        expect(historyManager.isEnabled()).toBe(false);
+      } finally {
+        config.redis = originalRedis;
+      }
+    });
+  });
+
+  describe('record', () => {
+    test('should number events per channel', () => {
+      expect(publish('public-a', 1).seq).toBe(1);
+      expect(publish('public-a', 2).seq).toBe(2);
+      expect(publish('public-b', 3).seq).toBe(1);
+    });
+
+    test('should number events that arrive with a seq itself', () => {
+      publish('public-a', 1);
+
+      expect(historyManager.record('public-a', { event: 'update', data: 2, channel: 'public-a', seq: 7 }).seq).toBe(2);
+    });
+  });
+
+  describe('getSince', () => {
+    test('should return events after the given seq', () => {
+      publish('public-a', 1);
+      publish('public-a', 2);
+      publish('public-a', 3);
+
+      const range = historyManager.getSince('public-a', 1);
+      expect(range.entries.map((entry) => entry.message.data)).toEqual([2, 3]);
+      expect(range.complete).toBe(true);
+    });
+
+    test('should report a gap when older events were dropped', () => {
+      for (let i = 1; i <= 5; i++) {
+        publish('public-a', i);
+      }
+
+      const range = historyManager.getSince('public-a', 1);
+      expect(range.entries.map((entry) => entry.seq)).toEqual([3, 4, 5]);
+      expect(range.complete).toBe(false);
+      expect(historyManager.getSince('public-a', 2).complete).toBe(true);
+    });
+
+    test('should report a gap for a seq this node never reached', () => {
+      publish('public-a', 1);
+
+      expect(historyManager.getSince('public-a', 5)).toMatchObject({ complete: false });
+      expect(historyManager.getSince('public-unknown', 5)).toEqual({ entries: [], complete: false });
+      expect(historyManager.getSince('public-unknown', 0)).toEqual({ entries: [], complete: true });
+    });
+
+    test('should drop events older than the TTL', () => {
+      config.historyTtlSec = 0;
+      publish('public-a', 1);
+
+      expect(historyManager.getSince('public-a', 0)).toEqual({ entries: [], complete: false });
+      expect(historyManager.getSince('public-a', 1)).toEqual({ entries: [], complete: true });
+    });
+  });
+});
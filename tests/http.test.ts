@@ -5,6 +5,9 @@
 import { createServer } from 'http';
 import { httpServer } from '../src/http/http-server.js';
 import { wsServer } from '../src/ws/websocket-server.js';
+import { config } from '../src/utils/config.js';
+import { appManager } from '../src/apps/app-manager.js';
+import { signedFetch, connectClient, subscribeClient, waitForMessage } from './helpers.js';
 
 const TEST_PORT = 3002;
 
@@ -39,12 +42,56 @@ describe('HTTP Server', () => {
       const response = await fetch(`http://localhost:${TEST_PORT}/health`);
       expect(response.status).toBe(200);
       
-      const data = await response.json();
+      const data = (await response.json()) as Record<string, unknown>;
       expect(data.status).toBe('ok');
       expect(data.stats).toBeDefined();
     });
   });
 
+  describe('Metrics Endpoint', () => {
+    test('GET /metrics should report connections, subscriptions and auth failures', async () => {
+      const client = await connectClient(`ws://localhost:${TEST_PORT}/ws`);
+      await subscribeClient(client, TEST_PORT, 'public-metrics');
+
+      const error = waitForMessage(client, (message) => message.event === 'pusher:error');
+      client.ws.send(JSON.stringify({
+        event: 'pusher:subscribe',
+        data: { channel: 'private-metrics', auth: `${config.appKey}:bad-signature` },
+      }));
+      await error;
+
+      const response = await fetch(`http://localhost:${TEST_PORT}/metrics`);
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toContain('text/plain');
+
+      const body = await response.text();
+      expect(body).toContain('# TYPE realtime_connections gauge');
+      expect(body).toContain(`realtime_connections{app_id="${config.appId}"} 1`);
+      expect(body).toContain(`realtime_subscriptions{app_id="${config.appId}",channel_type="public"} 1`);
+      expect(body).toContain('realtime_auth_failures_total{type="channel"} 1');
+      expect(body).toMatch(/^realtime_messages_received_total [1-9]/m);
+      expect(body).toContain('realtime_broadcast_fanout_seconds_bucket{le="+Inf"}');
+
+      const closed = new Promise((resolve) => client.ws.once('close', resolve));
+      client.ws.close();
+      await closed;
+    });
+
+    test('GET /metrics should require the bearer token when one is configured', async () => {
+      const originalToken = config.metricsToken;
+      config.metricsToken = 'scrape-token';
+
+      try {
+        const url = `http://localhost:${TEST_PORT}/metrics`;
+        expect((await fetch(url)).status).toBe(401);
+        expect((await fetch(url, { headers: { Authorization: 'Bearer wrong' } })).status).toBe(401);
+        expect((await fetch(url, { headers: { Authorization: 'Bearer scrape-token' } })).status).toBe(200);
+      } finally {
+        config.metricsToken = originalToken;
+      }
+    });
+  });
+
   describe('Auth Endpoint', () => {
     test('POST /auth should return auth token', async () => {
       const response = await fetch(`http://localhost:${TEST_PORT}/auth`, {
@@ -57,7 +104,7 @@ describe('HTTP Server', () => {
       });
 
       expect(response.status).toBe(200);
-      const data = await response.json();
+      const data = (await response.json()) as Record<string, unknown>;
       expect(data.auth).toBeDefined();
       expect(data.auth).toContain(':');
     });
@@ -75,11 +122,119 @@ describe('HTTP Server', () => {
       });
 
       expect(response.status).toBe(200);
-      const data = await response.json();
+      const data = (await response.json()) as Record<string, unknown>;
       expect(data.auth).toBeDefined();
       expect(data.channel_data).toBe(channelData);
     });
 
+    test('POST /auth and /user-auth should require the app\'s endpoint token when one is configured', async () => {
+      const originalApp = appManager.getDefault();
+      const otherApp = { ...originalApp, id: 'tenant-b', key: 'tenant-b-key', secret: 'tenant-b-secret', authEndpointToken: 'tenant-b-token' };
+      appManager.load([{ ...originalApp, authEndpointToken: 'endpoint-token' }, otherApp]);
+
+      const post = (path: string, body: unknown, authorization?: string) =>
+        fetch(`http://localhost:${TEST_PORT}${path}`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(authorization ? { Authorization: authorization } : {}),
+          },
+          body: JSON.stringify(body),
+        });
+      const channelAuth = { socket_id: 'socket-123', channel_name: 'private-user-456' };
+      const userAuth = { socket_id: 'socket-123', user_data: JSON.stringify({ id: 'alice' }) };
+      const otherAuth = { ...channelAuth, app_key: otherApp.key };
+
+      try {
+        expect((await post('/auth', channelAuth)).status).toBe(401);
+        expect((await post('/auth', channelAuth, 'Bearer wrong-token')).status).toBe(401);
+        expect((await post('/user-auth', userAuth)).status).toBe(401);
+        expect((await post('/auth', channelAuth, 'Bearer endpoint-token')).status).toBe(200);
+        expect((await post('/user-auth', userAuth, 'Bearer endpoint-token')).status).toBe(200);
+
+        // One app's token is no good for another app
+        expect((await post('/auth', otherAuth, 'Bearer endpoint-token')).status).toBe(401);
+        expect((await post('/user-auth', { ...userAuth, app_key: otherApp.key }, 'Bearer endpoint-token')).status).toBe(401);
+        expect((await post('/auth', otherAuth, 'Bearer tenant-b-token')).status).toBe(200);
+      } finally {
+        appManager.load([originalApp]);
+      }
+    });
+
+    test('POST /auth should be rate limited per IP', async () => {
+      const originalLimit = config.rateLimit.authRateLimit;
+      config.rateLimit.authRateLimit = 2;
+
+      const post = (ip: string) =>
+        fetch(`http://localhost:${TEST_PORT}/auth`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': ip },
+          body: JSON.stringify({ socket_id: 'socket-123', channel_name: 'private-user-456' }),
+        });
+
+      config.trustedProxies = ['127.0.0.1', '::1'];
+
+      try {
+        expect((await post('203.0.113.7')).status).toBe(200);
+        expect((await post('203.0.113.7')).status).toBe(200);
+        const throttled = await post('203.0.113.7');
+        expect(throttled.status).toBe(429);
+        expect(await throttled.json()).toEqual({ error: 'Too many requests' });
+
+        // Other IPs have their own budget
+        expect((await post('203.0.113.8')).status).toBe(200);
+
+        // Entries left of the hop the trusted proxy saw are the client's own and don't count
+        expect((await post('198.51.100.1, 203.0.113.9')).status).toBe(200);
+        expect((await post('198.51.100.2, 203.0.113.9')).status).toBe(200);
+        expect((await post('198.51.100.3, 203.0.113.9')).status).toBe(429);
+      } finally {
+        config.rateLimit.authRateLimit = originalLimit;
+        config.trustedProxies = [];
+      }
+    });
+
+    test('POST /auth should use the app\'s own auth rate limit', async () => {
+      const originalApp = appManager.getDefault();
+      const strictApp = {
+        ...originalApp,
+        id: 'strict-app',
+        key: 'strict-key',
+        secret: 'strict-secret',
+        rateLimit: { ...originalApp.rateLimit, authRateLimit: 1 },
+      };
+      appManager.load([originalApp, strictApp]);
+
+      const post = (appKey: string) =>
+        fetch(`http://localhost:${TEST_PORT}/auth`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ socket_id: 'socket-123', channel_name: 'private-user-456', app_key: appKey }),
+        });
+
+      try {
+        expect((await post(strictApp.key)).status).toBe(200);
+        expect((await post(strictApp.key)).status).toBe(429);
+        expect((await post(originalApp.key)).status).toBe(200);
+      } finally {
+        appManager.load([originalApp]);
+      }
+    });
+
+    test('POST /auth should reject unknown app_key', async () => {
+      const response = await fetch(`http://localhost:${TEST_PORT}/auth`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          socket_id: 'socket-123',
+          channel_name: 'private-user-456',
+          app_key: 'unknown-key',
+        }),
+      });
+
+      expect(response.status).toBe(404);
+    });
+
     test('POST /auth should reject invalid request', async () => {
       const response = await fetch(`http://localhost:${TEST_PORT}/auth`, {
         method: 'POST',
@@ -90,20 +245,397 @@ describe('HTTP Server', () => {
       });
 
       expect(response.status).toBe(400);
-      const data = await response.json();
+      const data = (await response.json()) as Record<string, unknown>;
       expect(data.error).toBeDefined();
     });
+
+    test('POST /auth should reject encrypted channels when no master key is configured', async () => {
+      const response = await fetch(`http://localhost:${TEST_PORT}/auth`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          socket_id: 'socket-123',
+          channel_name: 'private-encrypted-dm-1',
+        }),
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('User Auth Endpoint', () => {
+    const userAuth = (body: unknown) =>
+      fetch(`http://localhost:${TEST_PORT}/user-auth`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+    test('POST /user-auth should sign user_data', async () => {
+      const userData = JSON.stringify({ id: 'user-123' });
+      const response = await userAuth({ socket_id: 'socket-123', user_data: userData });
+
+      expect(response.status).toBe(200);
+      const data = (await response.json()) as Record<string, unknown>;
+      expect(data.auth).toContain(':');
+      expect(data.user_data).toBe(userData);
+    });
+
+    test('POST /user-auth should require user_data with an id', async () => {
+      const response = await userAuth({ socket_id: 'socket-123', user_data: JSON.stringify({ name: 'x' }) });
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('User Events Endpoint', () => {
+    test('POST /apps/:appId/users/:userId/events should report local deliveries', async () => {
+      const response = await signedFetch(TEST_PORT, 'POST', `/apps/${config.appId}/users/nobody/events`, {
+        name: 'notice',
+        data: {},
+      });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ delivered: 0 });
+    });
+
+    test('POST /apps/:appId/users/:userId/events should require an event name', async () => {
+      const response = await signedFetch(TEST_PORT, 'POST', `/apps/${config.appId}/users/nobody/events`, {
+        data: {},
+      });
+      expect(response.status).toBe(400);
+    });
+
+    test('POST /apps/:appId/users/:userId/terminate_connections should report local closes', async () => {
+      const response = await signedFetch(
+        TEST_PORT,
+        'POST',
+        `/apps/${config.appId}/users/nobody/terminate_connections`,
+        {}
+      );
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ terminated: 0 });
+    });
+
+    test('POST /apps/:appId/users/:userId/events should reject unsigned requests', async () => {
+      const response = await fetch(`http://localhost:${TEST_PORT}/apps/${config.appId}/users/nobody/events`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'notice', data: {} }),
+      });
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('Publish Endpoint', () => {
+    const publish = (appId: string, body: unknown) =>
+      signedFetch(TEST_PORT, 'POST', `/apps/${appId}/events`, body);
+
+    test('POST /apps/:appId/events should return per-channel results', async () => {
+      const response = await publish(config.appId, {
+        name: 'order-updated',
+        data: { id: 1 },
+        channels: ['public-orders', 'private-orders'],
+      });
+
+      expect(response.status).toBe(200);
+      const data = (await response.json()) as Record<string, unknown>;
+      expect(data.channels).toEqual({
+        'public-orders': { delivered: 0 },
+        'private-orders': { delivered: 0 },
+      });
+    });
+
+    test('POST /apps/:appId/events should accept a single channel', async () => {
+      const response = await publish(config.appId, {
+        name: 'order-updated',
+        data: 'payload',
+        channel: 'public-orders',
+      });
+
+      expect(response.status).toBe(200);
+      const data = (await response.json()) as Record<string, unknown>;
+      expect(data.channels).toEqual({ 'public-orders': { delivered: 0 } });
+    });
+
+    test('POST /apps/:appId/events should reject invalid channel names', async () => {
+      const response = await publish(config.appId, {
+        name: 'order-updated',
+        data: {},
+        channels: ['orders'],
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    test('POST /apps/:appId/events should not trigger to several channels when one is encrypted', async () => {
+      const response = await publish(config.appId, {
+        name: 'order-updated',
+        data: {},
+        channels: ['public-orders', 'private-encrypted-orders'],
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    test('POST /apps/:appId/events should reject encrypted channels when no master key is configured', async () => {
+      const response = await publish(config.appId, {
+        name: 'order-updated',
+        data: {},
+        channel: 'private-encrypted-orders',
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    test('POST /apps/:appId/events should require a channel', async () => {
+      const response = await publish(config.appId, {
+        name: 'order-updated',
+        data: {},
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    test('POST /apps/:appId/events should reject unsigned requests', async () => {
+      const response = await fetch(`http://localhost:${TEST_PORT}/apps/${config.appId}/events`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'order-updated', data: {}, channel: 'public-orders' }),
+      });
+
+      expect(response.status).toBe(401);
+    });
+
+    test('POST /apps/:appId/events should reject a tampered body', async () => {
+      const path = `/apps/${config.appId}/events`;
+      const signed = await signedFetch(TEST_PORT, 'POST', path, { name: 'a', data: {}, channel: 'public-orders' });
+      expect(signed.status).toBe(200);
+
+      const query = new URL(signed.url).search;
+      const response = await fetch(`http://localhost:${TEST_PORT}${path}${query}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'b', data: {}, channel: 'public-orders' }),
+      });
+
+      expect(response.status).toBe(401);
+    });
+
+    test('POST /apps/:appId/events should reject another app\'s credentials', async () => {
+      const response = await signedFetch(
+        TEST_PORT,
+        'POST',
+        `/apps/${config.appId}/events`,
+        { name: 'order-updated', data: {}, channel: 'public-orders' },
+        {},
+        { key: 'other-key', secret: 'other-secret' }
+      );
+
+      expect(response.status).toBe(401);
+    });
+
+    test('POST /apps/:appId/events should return 404 for unknown app', async () => {
+      const response = await publish('unknown-app', {
+        name: 'order-updated',
+        data: {},
+        channel: 'public-orders',
+      });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('Batch Publish Endpoint', () => {
+    const publishBatch = (appId: string, body: unknown) =>
+      signedFetch(TEST_PORT, 'POST', `/apps/${appId}/batch_events`, body);
+
+    test('POST /apps/:appId/batch_events should report per-event results', async () => {
+      const response = await publishBatch(config.appId, {
+        batch: [
+          { channel: 'public-orders', name: 'order-created', data: { id: 1 } },
+          { channel: 'orders', name: 'order-created', data: { id: 2 } },
+          { channel: 'private-orders', name: 'order-updated', data: { id: 3 }, socket_id: '1.2' },
+        ],
+      });
+
+      expect(response.status).toBe(200);
+      const data = (await response.json()) as { batch: Array<Record<string, unknown>> };
+      expect(data.batch).toHaveLength(3);
+      expect(data.batch[0]).toEqual({ success: true, channel: 'public-orders', delivered: 0 });
+      expect(data.batch[1].success).toBe(false);
+      expect(data.batch[2]).toEqual({ success: true, channel: 'private-orders', delivered: 0 });
+    });
+
+    test('POST /apps/:appId/batch_events should reject oversized batches', async () => {
+      const batch = Array.from({ length: config.maxBatchSize + 1 }, (_, i) => ({
+        channel: 'public-orders',
+        name: 'order-created',
+        data: { id: i },
+      }));
+      const response = await publishBatch(config.appId, { batch });
+
+      expect(response.status).toBe(400);
+    });
+
+    test('POST /apps/:appId/batch_events should reject an empty batch', async () => {
+      const response = await publishBatch(config.appId, { batch: [] });
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('Channel Query Endpoints', () => {
+    const query = (path: string, params: Record<string, string> = {}) =>
+      signedFetch(TEST_PORT, 'GET', `/apps/${config.appId}${path}`, undefined, params);
+
+    beforeEach(() => {
+      const context = appManager.getContext(appManager.getDefault());
+      context.channels.clear();
+      context.presence.clear();
+
+      context.channels.subscribe('public-news', 'socket-1');
+      context.channels.subscribe('presence-room', 'socket-1');
+      context.channels.subscribe('presence-room', 'socket-2');
+      context.channels.subscribe('presence-room', 'socket-3');
+      context.presence.addMember('presence-room', 'socket-1', { user_id: 'alice' });
+      context.presence.addMember('presence-room', 'socket-2', { user_id: 'bob' });
+      context.presence.addMember('presence-room', 'socket-3', { user_id: 'alice' });
+    });
+
+    test('GET /apps/:appId/channels should list occupied channels', async () => {
+      const response = await query('/channels');
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        channels: { 'public-news': {}, 'presence-room': {} },
+      });
+    });
+
+    test('GET /apps/:appId/channels should filter by prefix and include counts', async () => {
+      const response = await query('/channels', {
+        filter_by_prefix: 'presence-',
+        info: 'user_count,subscription_count',
+      });
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        channels: { 'presence-room': { user_count: 2, subscription_count: 3 } },
+      });
+    });
+
+    test('GET /apps/:appId/channels should require a presence prefix for user_count', async () => {
+      const response = await query('/channels', { info: 'user_count' });
+      expect(response.status).toBe(400);
+    });
+
+    test('GET /apps/:appId/channels should reject unknown info attributes', async () => {
+      const response = await query('/channels', { info: 'members' });
+      expect(response.status).toBe(400);
+    });
+
+    test('GET /apps/:appId/channels/:name should return occupancy and counts', async () => {
+      const response = await query('/channels/presence-room', { info: 'user_count,subscription_count' });
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ occupied: true, user_count: 2, subscription_count: 3 });
+    });
+
+    test('GET /apps/:appId/channels/:name should report unoccupied channels', async () => {
+      const response = await query('/channels/public-empty', { info: 'subscription_count' });
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ occupied: false, subscription_count: 0 });
+    });
+
+    test('GET /apps/:appId/channels/:name should reject user_count for non-presence channels', async () => {
+      const response = await query('/channels/public-news', { info: 'user_count' });
+      expect(response.status).toBe(400);
+    });
+
+    test('GET /apps/:appId/channels/:name should reject invalid channel names', async () => {
+      const response = await query('/channels/news');
+      expect(response.status).toBe(400);
+    });
+
+    test('GET /apps/:appId/channels/:name/users should list distinct presence users', async () => {
+      const response = await query('/channels/presence-room/users');
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ users: [{ id: 'alice' }, { id: 'bob' }] });
+    });
+
+    test('GET /apps/:appId/channels/:name/users should reject non-presence channels', async () => {
+      const response = await query('/channels/private-room/users');
+      expect(response.status).toBe(400);
+    });
+
+    test('GET /apps/:appId/channels should reject unsigned requests', async () => {
+      const response = await fetch(`http://localhost:${TEST_PORT}/apps/${config.appId}/channels`);
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('Channel History Endpoint', () => {
+    const originalHistorySize = config.historySize;
+    const history = (query: Record<string, string> = {}) =>
+      signedFetch(TEST_PORT, 'GET', `/apps/${config.appId}/channels/public-ticker/history`, undefined, query);
+
+    afterAll(() => {
+      config.historySize = originalHistorySize;
+    });
+
+    test('GET /apps/:appId/channels/:name/history should reject requests when history is disabled', async () => {
+      config.historySize = 0;
+      const response = await history();
+      expect(response.status).toBe(400);
+    });
+
+    test('GET /apps/:appId/channels/:name/history should page through events after since', async () => {
+      config.historySize = 10;
+      for (const price of [10, 11, 12]) {
+        await signedFetch(TEST_PORT, 'POST', `/apps/${config.appId}/events`, {
+          name: 'price',
+          data: { price },
+          channel: 'public-ticker',
+        });
+      }
+
+      const response = await history({ since: '1', limit: '1' });
+      expect(response.status).toBe(200);
+      const data = (await response.json()) as { events: Array<Record<string, unknown>>; complete: boolean };
+      expect(data.complete).toBe(true);
+      expect(data.events).toHaveLength(1);
+      expect(data.events[0]).toMatchObject({ seq: 2, event: 'price', data: { price: 11 } });
+    });
+
+    test('GET /apps/:appId/channels/:name/history should reject an invalid since', async () => {
+      config.historySize = 10;
+      const response = await history({ since: '-1' });
+      expect(response.status).toBe(400);
+    });
   });
 
   describe('Admin Stats Endpoint', () => {
     test('GET /admin/stats should return stats', async () => {
-      const response = await fetch(`http://localhost:${TEST_PORT}/admin/stats`);
+      const response = await signedFetch(TEST_PORT, 'GET', '/admin/stats');
       expect(response.status).toBe(200);
       
-      const data = await response.json();
+      const data = (await response.json()) as Record<string, unknown>;
       expect(data.connections).toBeDefined();
       expect(data.channels).toBeDefined();
       expect(data.presenceChannels).toBeDefined();
     });
+
+    test('GET /admin/stats should be scoped to the signing app', async () => {
+      const otherApp = { ...appManager.getDefault(), id: 'stats-app', key: 'stats-key', secret: 'stats-secret' };
+      appManager.load([appManager.getDefault(), otherApp]);
+
+      const response = await signedFetch(TEST_PORT, 'GET', '/admin/stats', undefined, {}, otherApp);
+      expect(response.status).toBe(200);
+
+      const data = (await response.json()) as Record<string, unknown>;
+      expect(data.appId).toBe('stats-app');
+      expect(data.connections).toBe(0);
+    });
+
+    test('GET /admin/stats should reject unsigned requests', async () => {
+      const response = await fetch(`http://localhost:${TEST_PORT}/admin/stats`);
+      expect(response.status).toBe(401);
+    });
   });
 });
@@ -0,0 +1,158 @@
+/**
+ * JWT channel authorization tests
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { isJwt, verifyChannelJwt, verifyJwt } from '../src/utils/jwt.js';
+import { config } from '../src/utils/config.js';
+import { metrics } from '../src/metrics/metrics.js';
+import { signJwt } from './helpers.js';
+
+const SECRET = 'jwt-test-secret';
+
+describe('JWT Auth', () => {
+  const rsa = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const ec = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const jwksFile = path.join(os.tmpdir(), `jwks-${process.pid}.json`);
+  const originals = {
+    jwtSecret: config.jwtSecret,
+    jwtJwksFile: config.jwtJwksFile,
+    jwtIssuer: config.jwtIssuer,
+    jwtAudience: config.jwtAudience,
+  };
+
+  const inOneHour = () => Math.floor(Date.now() / 1000) + 3600;
+  const claims = (extra: Record<string, unknown> = {}) => ({
+    exp: inOneHour(),
+    channels: ['private-doc-*', 'presence-lobby'],
+    ...extra,
+  });
+
+  beforeAll(() => {
+    fs.writeFileSync(
+      jwksFile,
+      JSON.stringify({
+        keys: [
+          { ...rsa.publicKey.export({ format: 'jwk' }), kid: 'rsa-1', alg: 'RS256' },
+          { ...ec.publicKey.export({ format: 'jwk' }), kid: 'ec-1' },
+        ],
+      })
+    );
+    config.jwtSecret = SECRET;
+    config.jwtJwksFile = jwksFile;
+  });
+
+  afterAll(() => {
+    Object.assign(config, originals);
+    fs.rmSync(jwksFile, { force: true });
+  });
+
+  afterEach(() => {
+    config.jwtIssuer = '';
+    config.jwtAudience = '';
+  });
+
+  describe('isJwt', () => {
+    test('should tell JWTs from HMAC auth strings', () => {
+      expect(isJwt(signJwt(claims(), SECRET))).toBe(true);
+      expect(isJwt('app-key:' + 'a'.repeat(64))).toBe(false);
+    });
+  });
+
+  describe('verifyJwt', () => {
+    test('should verify HS256, RS256 and ES256 tokens', () => {
+      expect(verifyJwt(signJwt(claims(), SECRET))?.channels).toEqual(['private-doc-*', 'presence-lobby']);
+      expect(verifyJwt(signJwt(claims(), rsa.privateKey, { kid: 'rsa-1' }))).not.toBeNull();
+      expect(verifyJwt(signJwt(claims(), ec.privateKey))).not.toBeNull();
+    });
+
+    test('should reject bad signatures and unknown keys', () => {
+      const other = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+      expect(verifyJwt(signJwt(claims(), 'wrong-secret'))).toBeNull();
+      expect(verifyJwt(signJwt(claims(), other.privateKey))).toBeNull();
+      expect(verifyJwt(signJwt(claims(), rsa.privateKey, { kid: 'ec-1' }))).toBeNull();
+    });
+
+    test('should reject unsigned tokens', () => {
+      const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+      const token = `${encode({ alg: 'none' })}.${encode(claims())}.${encode('')}`;
+
+      expect(verifyJwt(token)).toBeNull();
+    });
+
+    test('should enforce exp, nbf and the required claims', () => {
+      const now = Math.floor(Date.now() / 1000);
+
+      expect(verifyJwt(signJwt(claims({ exp: now - 1 }), SECRET))).toBeNull();
+      expect(verifyJwt(signJwt(claims({ nbf: now + 60 }), SECRET))).toBeNull();
+      expect(verifyJwt(signJwt({ channels: ['*'] }, SECRET))).toBeNull();
+      expect(verifyJwt(signJwt({ exp: inOneHour(), channels: [] }, SECRET))).toBeNull();
+    });
+
+    test('should enforce the configured issuer and audience', () => {
+      config.jwtIssuer = 'https://app.example.com';
+      config.jwtAudience = 'realtime';
+
+      expect(verifyJwt(signJwt(claims({ iss: 'https://app.example.com', aud: ['realtime', 'api'] }), SECRET))).not.toBeNull();
+      expect(verifyJwt(signJwt(claims({ iss: 'https://evil.example.com', aud: 'realtime' }), SECRET))).toBeNull();
+      expect(verifyJwt(signJwt(claims({ iss: 'https://app.example.com' }), SECRET))).toBeNull();
+    });
+  });
+
+  describe('verifyChannelJwt', () => {
+    test('should grant matching channels until exp', () => {
+      const exp = inOneHour();
+      const token = signJwt(claims({ exp }), SECRET);
+
+      expect(verifyChannelJwt(config.appId, token, '1.1', 'private-doc-7')).toEqual({ expiresAt: exp * 1000 });
+      expect(verifyChannelJwt(config.appId, token, '1.1', 'private-admin')).toBeNull();
+    });
+
+    test('should honour app_id and socket_id bindings', () => {
+      const token = signJwt(claims({ app_id: config.appId, socket_id: '1.1' }), SECRET);
+
+      expect(verifyChannelJwt(config.appId, token, '1.1', 'private-doc-7')).not.toBeNull();
+      expect(verifyChannelJwt(config.appId, token, '2.2', 'private-doc-7')).toBeNull();
+      expect(verifyChannelJwt('other-app', token, '1.1', 'private-doc-7')).toBeNull();
+    });
+
+    test('should require app_id when asked to', () => {
+      const options = { requireAppId: true };
+
+      expect(verifyChannelJwt(config.appId, signJwt(claims(), SECRET), '1.1', 'private-doc-7', options)).toBeNull();
+      expect(verifyChannelJwt(config.appId, signJwt(claims({ app_id: config.appId }), SECRET), '1.1', 'private-doc-7', options)).not.toBeNull();
+    });
+
+    test('should build presence channel_data from the claims', () => {
+      const withUser = signJwt(claims({ user_id: 'alice', user_info: { name: 'Alice' } }), SECRET);
+      const withSub = signJwt(claims({ sub: 'bob' }), SECRET);
+
+      expect(JSON.parse(verifyChannelJwt(config.appId, withUser, '1.1', 'presence-lobby')!.channelData!)).toEqual({
+        user_id: 'alice',
+        user_info: { name: 'Alice' },
+      });
+      expect(JSON.parse(verifyChannelJwt(config.appId, withSub, '1.1', 'presence-lobby')!.channelData!)).toEqual({
+        user_id: 'bob',
+      });
+      expect(verifyChannelJwt(config.appId, signJwt(claims(), SECRET), '1.1', 'presence-lobby')).toBeNull();
+    });
+
+    test('should never grant encrypted channels', () => {
+      const token = signJwt(claims({ channels: ['*'] }), SECRET);
+
+      expect(verifyChannelJwt(config.appId, token, '1.1', 'private-encrypted-dm-1')).toBeNull();
+    });
+
+    test('should count rejections', () => {
+      const before = metrics.authFailures.get({ type: 'jwt' });
+
+      verifyChannelJwt(config.appId, signJwt(claims(), 'wrong-secret'), '1.1', 'private-doc-1');
+
+      expect(metrics.authFailures.get({ type: 'jwt' })).toBe(before + 1);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Prometheus metrics tests
+ */
+
+import { Counter, Gauge, Histogram } from '../src/metrics/metrics.js';
+
+describe('Metrics', () => {
+  describe('Counter', () => {
+    test('should count per label set', () => {
+      const counter = new Counter('closes_total', 'Closes');
+      counter.inc({ code: '1000' });
+      counter.inc({ code: '1000' });
+      counter.inc({ code: '4201' }, 3);
+
+      expect(counter.get({ code: '1000' })).toBe(2);
+      expect(counter.render()).toBe(
+        [
+          '# HELP realtime_closes_total Closes',
+          '# TYPE realtime_closes_total counter',
+          'realtime_closes_total{code="1000"} 2',
+          'realtime_closes_total{code="4201"} 3',
+        ].join('\n')
+      );
+    });
+
+    test('should sort and escape labels', () => {
+      const counter = new Counter('events_total', 'Events');
+      counter.inc({ b: 'say "hi"\n', a: 'back\\slash' });
+
+      expect(counter.render()).toContain('realtime_events_total{a="back\\\\slash",b="say \\"hi\\"\\n"} 1');
+    });
+  });
+
+  describe('Gauge', () => {
+    test('should read its samples when rendered', () => {
+      const gauge = new Gauge('connections', 'Connections');
+      let connections = 1;
+      gauge.collect(() => [{ labels: { app_id: 'app' }, value: connections }]);
+
+      expect(gauge.render()).toContain('realtime_connections{app_id="app"} 1');
+      connections = 5;
+      expect(gauge.render()).toContain('realtime_connections{app_id="app"} 5');
+    });
+  });
+
+  describe('Histogram', () => {
+    test('should render cumulative buckets, sum and count', () => {
+      const histogram = new Histogram('latency_seconds', 'Latency', [0.1, 1]);
+      histogram.observe(0.05);
+      histogram.observe(0.5);
+      histogram.observe(2);
+
+      expect(histogram.render().split('\n').slice(2)).toEqual([
+        'realtime_latency_seconds_bucket{le="0.1"} 1',
+        'realtime_latency_seconds_bucket{le="1"} 2',
+        'realtime_latency_seconds_bucket{le="+Inf"} 3',
+        'realtime_latency_seconds_sum 2.55',
+        'realtime_latency_seconds_count 3',
+      ]);
+    });
+
+    test('should time synchronous work', () => {
+      const histogram = new Histogram('work_seconds', 'Work');
+      expect(histogram.time(() => 42)).toBe(42);
+      expect(histogram.render()).toContain('realtime_work_seconds_count 1');
+    });
+  });
+});
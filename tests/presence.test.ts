@@ -2,9 +2,11 @@
  * Presence management tests
  */
 
-import { presenceManager } from '../src/presence/presence-manager.js';
+import { PresenceManager } from '../src/presence/presence-manager.js';
 
 describe('Presence Manager', () => {
+  const presenceManager = new PresenceManager();
+
   beforeEach(() => {
     presenceManager.clear();
   });
@@ -120,4 +122,83 @@ describe('Presence Manager', () => {
       expect(channels).not.toContain('presence-room-1');
     });
   });
+
+  describe('listener', () => {
+    test('should report added and removed members', () => {
+      const events: string[] = [];
+      const manager = new PresenceManager({
+        onMemberAdded: (channel, member) => events.push(`added:${channel}:${member.user_id}`),
+        onMemberRemoved: (channel, member) => events.push(`removed:${channel}:${member.user_id}`),
+      });
+
+      manager.addMember('presence-room-1', 'socket-1', { user_id: 'user-1' });
+      manager.removeMember('presence-room-1', 'socket-1');
+      manager.removeMember('presence-room-1', 'socket-1');
+
+      expect(events).toEqual(['added:presence-room-1:user-1', 'removed:presence-room-1:user-1']);
+    });
+  });
+
+  describe('multiple sockets per user', () => {
+    test('should count each user once', () => {
+      expect(presenceManager.addMember('presence-room-1', 'socket-1', { user_id: 'user-1' })).toBe(true);
+      expect(presenceManager.addMember('presence-room-1', 'socket-2', { user_id: 'user-1' })).toBe(false);
+      presenceManager.addMember('presence-room-1', 'socket-3', { user_id: 'user-2' });
+
+      expect(presenceManager.getMemberCount('presence-room-1')).toBe(2);
+      expect(presenceManager.getPresenceData('presence-room-1').presence.count).toBe(2);
+      expect(presenceManager.getUserIds('presence-room-1')).toEqual(['user-1', 'user-2']);
+    });
+
+    test('should only report a user as gone when their last socket leaves', () => {
+      presenceManager.addMember('presence-room-1', 'socket-1', { user_id: 'user-1' });
+      presenceManager.addMember('presence-room-1', 'socket-2', { user_id: 'user-1' });
+
+      expect(presenceManager.removeMember('presence-room-1', 'socket-1')).toBe(false);
+      expect(presenceManager.hasUser('presence-room-1', 'user-1')).toBe(true);
+      expect(presenceManager.removeMember('presence-room-1', 'socket-2')).toBe(true);
+      expect(presenceManager.hasUser('presence-room-1', 'user-1')).toBe(false);
+    });
+
+    test('should notify the listener once per user', () => {
+      const events: string[] = [];
+      const manager = new PresenceManager({
+        onMemberAdded: (_channel, member) => events.push(`added:${member.user_id}`),
+        onMemberRemoved: (_channel, member) => events.push(`removed:${member.user_id}`),
+      });
+
+      manager.addMember('presence-room-1', 'socket-1', { user_id: 'user-1' });
+      manager.addMember('presence-room-1', 'socket-2', { user_id: 'user-1' });
+      manager.removeMember('presence-room-1', 'socket-1');
+      manager.removeMember('presence-room-1', 'socket-2');
+
+      expect(events).toEqual(['added:user-1', 'removed:user-1']);
+    });
+
+    test('should only expire users of a departed node without other sockets', () => {
+      presenceManager.addMember('presence-room-1', 'socket-1', { user_id: 'user-1' });
+      presenceManager.addMember('presence-room-1', 'socket-2', { user_id: 'user-1' }, 'node-b');
+      presenceManager.addMember('presence-room-1', 'socket-3', { user_id: 'user-2' }, 'node-b');
+
+      const removed = presenceManager.removeNode('node-b');
+
+      expect(removed.map((record) => record.member.user_id)).toEqual(['user-2']);
+      expect(presenceManager.getUserIds('presence-room-1')).toEqual(['user-1']);
+    });
+
+    test('should replace a node\'s members with its snapshot and report the difference', () => {
+      presenceManager.addMember('presence-room-1', 'socket-1', { user_id: 'user-1' }, 'node-b');
+      presenceManager.addMember('presence-room-1', 'socket-2', { user_id: 'ghost' }, 'node-b');
+
+      const { added, removed } = presenceManager.replaceNode('node-b', [
+        { channelName: 'presence-room-1', socketId: 'socket-1', member: { user_id: 'user-1' } },
+        { channelName: 'presence-room-2', socketId: 'socket-3', member: { user_id: 'user-3' } },
+      ]);
+
+      expect(added.map((record) => record.member.user_id)).toEqual(['user-3']);
+      expect(removed.map((record) => record.member.user_id)).toEqual(['ghost']);
+      expect(presenceManager.getUserIds('presence-room-1')).toEqual(['user-1']);
+      expect(presenceManager.getUserIds('presence-room-2')).toEqual(['user-3']);
+    });
+  });
 });
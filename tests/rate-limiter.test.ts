@@ -0,0 +1,84 @@
+/**
+ * Rate limiter tests
+ */
+
+import { RateLimiter } from '../src/rate-limit/rate-limiter.js';
+import { config } from '../src/utils/config.js';
+import type { RateLimitConfig } from '../src/types/index.js';
+
+describe('Rate Limiter', () => {
+  const realNow = Date.now;
+  let now = 1_000_000;
+
+  const limits: RateLimitConfig = {
+    ...config.rateLimit,
+    messageRateLimit: 4,
+    messageRateWindowMs: 1000,
+    subscribeRateLimit: 2,
+    pingRateLimit: 1,
+    channelTypeRateLimits: { presence: 1 },
+    maxViolations: 3,
+  };
+
+  const consumeMany = (limiter: RateLimiter, count: number) =>
+    Array.from({ length: count }, () => limiter.consume('socket-1', 'client_event'));
+
+  beforeEach(() => {
+    now = 1_000_000;
+    Date.now = () => now;
+  });
+
+  afterAll(() => {
+    Date.now = realNow;
+  });
+
+  test('should allow a burst up to the limit, then throttle', () => {
+    const limiter = new RateLimiter(limits);
+
+    expect(consumeMany(limiter, 5)).toEqual(['allowed', 'allowed', 'allowed', 'allowed', 'throttled']);
+  });
+
+  test('should refill continuously instead of resetting at a window boundary', () => {
+    const limiter = new RateLimiter(limits);
+    consumeMany(limiter, 4);
+
+    // Half a window refills half the budget, never a fresh full burst
+    now += 500;
+    expect(consumeMany(limiter, 3)).toEqual(['allowed', 'allowed', 'throttled']);
+
+    now += 1000;
+    expect(consumeMany(limiter, 5).filter((result) => result === 'allowed')).toHaveLength(4);
+  });
+
+  test('should keep separate budgets per action and socket', () => {
+    const limiter = new RateLimiter(limits);
+
+    expect(limiter.consume('socket-1', 'ping')).toBe('allowed');
+    expect(limiter.consume('socket-1', 'ping')).toBe('throttled');
+    expect(limiter.consume('socket-1', 'subscribe')).toBe('allowed');
+    expect(limiter.consume('socket-2', 'ping')).toBe('allowed');
+  });
+
+  test('should use channel type overrides for client events', () => {
+    const limiter = new RateLimiter(limits);
+
+    expect(limiter.consume('socket-1', 'client_event', 'presence')).toBe('allowed');
+    expect(limiter.consume('socket-1', 'client_event', 'presence')).toBe('throttled');
+    expect(limiter.consume('socket-1', 'client_event', 'private')).toBe('allowed');
+  });
+
+  test('should block sockets that keep exceeding their budgets', () => {
+    const limiter = new RateLimiter(limits);
+    consumeMany(limiter, 4);
+
+    expect(consumeMany(limiter, 4)).toEqual(['throttled', 'throttled', 'throttled', 'blocked']);
+
+    // Violations are counted per window
+    limiter.removeSocket('socket-1');
+    consumeMany(limiter, 4);
+    expect(consumeMany(limiter, 3)).toEqual(['throttled', 'throttled', 'throttled']);
+    now += 1001;
+    consumeMany(limiter, 4);
+    expect(limiter.consume('socket-1', 'client_event')).toBe('throttled');
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Stand-in Redis server for tests - speaks just enough RESP2 for pub/sub
+ * (PING, AUTH, SUBSCRIBE, PUBLISH)
+ */
+
+import net from 'net';
+
+export interface RespServer {
+  published: Array<{ channel: string; message: string }>;
+  dropConnections(): void;
+  close(): Promise<void>;
+}
+
+function bulk(value: string): string {
+  return `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+}
+
+/**
+ * Parse complete command arrays from the buffer; returns commands and bytes consumed
+ */
+function parseCommands(buffer: Buffer): { commands: string[][]; consumed: number } {
+  const commands: string[][] = [];
+  let offset = 0;
+
+  outer: while (offset < buffer.length) {
+    let cursor = offset;
+    const headerEnd = buffer.indexOf('\r\n', cursor);
+    if (headerEnd === -1) break;
+    const count = Number(buffer.toString('utf8', cursor + 1, headerEnd));
+    cursor = headerEnd + 2;
+
+    const args: string[] = [];
+    for (let i = 0; i < count; i++) {
+      const lineEnd = buffer.indexOf('\r\n', cursor);
+      if (lineEnd === -1) break outer;
+      const length = Number(buffer.toString('utf8', cursor + 1, lineEnd));
+      const start = lineEnd + 2;
+      if (buffer.length < start + length + 2) break outer;
+      args.push(buffer.toString('utf8', start, start + length));
+      cursor = start + length + 2;
+    }
+
+    commands.push(args);
+    offset = cursor;
+  }
+
+  return { commands, consumed: offset };
+}
+
+export async function startRespServer(port: number, password?: string): Promise<RespServer> {
+  const sockets: Set<net.Socket> = new Set();
+  const subscribers: Map<string, Set<net.Socket>> = new Map(); // channel -> sockets
+  const published: RespServer['published'] = [];
+
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    let buffer = Buffer.alloc(0);
+    let authenticated = !password;
+
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      const { commands, consumed } = parseCommands(buffer);
+      buffer = buffer.subarray(consumed);
+
+      for (const [name, ...args] of commands) {
+        const command = name.toUpperCase();
+
+        if (command === 'AUTH') {
+          authenticated = args[args.length - 1] === password;
+          socket.write(authenticated ? '+OK\r\n' : '-WRONGPASS invalid password\r\n');
+        } else if (!authenticated) {
+          socket.write('-NOAUTH Authentication required.\r\n');
+        } else if (command === 'PING') {
+          socket.write('+PONG\r\n');
+        } else if (command === 'SUBSCRIBE') {
+          args.forEach((channel, index) => {
+            if (!subscribers.has(channel)) {
+              subscribers.set(channel, new Set());
+            }
+            subscribers.get(channel)!.add(socket);
+            socket.write(`*3\r\n${bulk('subscribe')}${bulk(channel)}:${index + 1}\r\n`);
+          });
+        } else if (command === 'PUBLISH') {
+          const [channel, message] = args;
+          published.push({ channel, message });
+          const targets = subscribers.get(channel) ?? new Set();
+          for (const target of targets) {
+            target.write(`*3\r\n${bulk('message')}${bulk(channel)}${bulk(message)}`);
+          }
+          socket.write(`:${targets.size}\r\n`);
+        } else {
+          socket.write(`-ERR unknown command '${name}'\r\n`);
+        }
+      }
+    });
+
+    socket.on('close', () => {
+      sockets.delete(socket);
+      for (const channelSockets of subscribers.values()) {
+        channelSockets.delete(socket);
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, () => resolve()));
+
+  return {
+    published,
+    dropConnections: () => {
+      for (const socket of sockets) {
+        socket.destroy();
+      }
+    },
+    close: () => {
+      for (const socket of sockets) {
+        socket.destroy();
+      }
+      return new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * REST request signing tests
+ */
+
+import { signRestRequest, verifyRestRequest } from '../src/utils/rest-auth.js';
+import { config } from '../src/utils/config.js';
+
+const credentials = { key: 'test-key', secret: 'test-secret' };
+
+describe('REST Auth', () => {
+  const request = {
+    method: 'POST',
+    path: '/apps/app/events',
+    query: {},
+    body: JSON.stringify({ name: 'event', data: '{}', channel: 'public-chat' }),
+  };
+
+  describe('signRestRequest', () => {
+    test('should add Pusher auth parameters', () => {
+      const query = signRestRequest(request, credentials, 1353088179);
+      expect(query.auth_key).toBe('test-key');
+      expect(query.auth_timestamp).toBe('1353088179');
+      expect(query.auth_version).toBe('1.0');
+      expect(query.body_md5).toMatch(/^[a-f0-9]{32}$/);
+      expect(query.auth_signature).toMatch(/^[a-f0-9]{64}$/);
+    });
+
+    test('should match the Pusher reference signature', () => {
+      // Example from the Pusher HTTP API reference
+      const query = signRestRequest(
+        {
+          method: 'POST',
+          path: '/apps/3/events',
+          query: {},
+          body: '{"name":"foo","channels":["project-3"],"data":"{\\"some\\":\\"data\\"}"}',
+        },
+        { key: '278d425bdf160c739803', secret: '7ad3773142a6692b25b8' },
+        1353088179
+      );
+      expect(query.body_md5).toBe('ec365a775a4cd0599faeb73354201b6f');
+      expect(query.auth_signature).toBe('da454824c97ba181a32ccc17a72625ba02771f50b50e1e7430e47a1f3f457e6c');
+    });
+
+    test('should omit body_md5 for requests without a body', () => {
+      const query = signRestRequest({ method: 'GET', path: '/admin/stats', query: {} }, credentials);
+      expect(query.body_md5).toBeUndefined();
+    });
+  });
+
+  describe('verifyRestRequest', () => {
+    test('should accept a correctly signed request', () => {
+      const query = signRestRequest(request, credentials);
+      expect(verifyRestRequest({ ...request, query }, credentials)).toEqual({ valid: true });
+    });
+
+    test('should accept query parameters in any order and case', () => {
+      const query = signRestRequest({ ...request, query: { info: 'user_count', filter_by_prefix: 'presence-' } }, credentials);
+      const reordered = Object.fromEntries(Object.entries(query).reverse());
+      expect(verifyRestRequest({ ...request, query: reordered }, credentials).valid).toBe(true);
+    });
+
+    test('should reject missing auth parameters', () => {
+      expect(verifyRestRequest({ ...request, query: {} }, credentials).valid).toBe(false);
+    });
+
+    test('should reject an unknown key', () => {
+      const query = signRestRequest(request, { ...credentials, key: 'other-key' });
+      expect(verifyRestRequest({ ...request, query }, credentials).valid).toBe(false);
+    });
+
+    test('should reject a wrong secret', () => {
+      const query = signRestRequest(request, { ...credentials, secret: 'other-secret' });
+      expect(verifyRestRequest({ ...request, query }, credentials).valid).toBe(false);
+    });
+
+    test('should reject a modified body', () => {
+      const query = signRestRequest(request, credentials);
+      const tampered = { ...request, query, body: request.body.replace('public-chat', 'public-other') };
+      expect(verifyRestRequest(tampered, credentials)).toEqual({ valid: false, reason: 'Invalid body_md5' });
+    });
+
+    test('should reject a modified path', () => {
+      const query = signRestRequest(request, credentials);
+      expect(verifyRestRequest({ ...request, query, path: '/apps/other/events' }, credentials).valid).toBe(false);
+    });
+
+    test('should reject timestamps outside the skew window', () => {
+      const stale = Math.floor(Date.now() / 1000) - config.restAuthMaxSkewSec - 1;
+      const query = signRestRequest(request, credentials, stale);
+      expect(verifyRestRequest({ ...request, query }, credentials)).toEqual({
+        valid: false,
+        reason: 'Timestamp expired',
+      });
+    });
+  });
+});
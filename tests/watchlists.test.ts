@@ -0,0 +1,57 @@
+/**
+ * Watchlist management tests
+ */
+
+import { WatchlistManager } from '../src/watchlists/watchlist-manager.js';
+
+describe('Watchlist Manager', () => {
+  const watchlistManager = new WatchlistManager();
+
+  beforeEach(() => {
+    watchlistManager.clear();
+  });
+
+  describe('online status', () => {
+    test('should count a user online from the first socket to the last', () => {
+      expect(watchlistManager.addConnection('alice', 'socket-1')).toBe(true);
+      expect(watchlistManager.addConnection('alice', 'socket-2')).toBe(false);
+
+      expect(watchlistManager.removeConnection('alice', 'socket-1')).toBe(false);
+      expect(watchlistManager.isOnline('alice')).toBe(true);
+      expect(watchlistManager.removeConnection('alice', 'socket-2')).toBe(true);
+      expect(watchlistManager.isOnline('alice')).toBe(false);
+    });
+
+    test('should ignore sockets it never counted', () => {
+      expect(watchlistManager.removeConnection('alice', 'socket-1')).toBe(false);
+    });
+
+    test('should take a departed node\'s users offline', () => {
+      watchlistManager.addConnection('alice', 'socket-1', 'node-b');
+      watchlistManager.addConnection('bob', 'socket-2', 'node-b');
+      watchlistManager.addConnection('bob', 'socket-3');
+
+      expect(watchlistManager.removeNode('node-b')).toEqual(['alice']);
+      expect(watchlistManager.isOnline('bob')).toBe(true);
+    });
+
+    test('should share only local sockets', () => {
+      watchlistManager.addConnection('alice', 'socket-1');
+      watchlistManager.addConnection('bob', 'socket-2', 'node-b');
+
+      expect(watchlistManager.getLocalConnections()).toEqual([{ userId: 'alice', socketId: 'socket-1' }]);
+    });
+  });
+
+  describe('watchers', () => {
+    test('should track which sockets watch a user', () => {
+      watchlistManager.watch('socket-1', ['alice', 'bob']);
+      watchlistManager.watch('socket-2', ['alice']);
+      expect(watchlistManager.getWatchers('alice').sort()).toEqual(['socket-1', 'socket-2']);
+
+      watchlistManager.unwatch('socket-1', ['alice', 'bob']);
+      expect(watchlistManager.getWatchers('alice')).toEqual(['socket-2']);
+      expect(watchlistManager.getWatchers('bob')).toEqual([]);
+    });
+  });
+});
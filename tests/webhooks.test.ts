@@ -0,0 +1,155 @@
+/**
+ * Outbound webhook tests
+ */
+
+import { createServer, type IncomingHttpHeaders, type Server } from 'http';
+import { WebhookSender, signWebhookBody } from '../src/webhooks/webhook-sender.js';
+import { appManager } from '../src/apps/app-manager.js';
+import { config } from '../src/utils/config.js';
+import type { App, WebhookPayload } from '../src/types/index.js';
+
+const RECEIVER_PORT = 3004;
+
+interface ReceivedWebhook {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('Webhooks', () => {
+  let receiver: Server;
+  let received: ReceivedWebhook[] = [];
+  let statuses: number[] = []; // Responses to return, in order (then 200)
+  const originals = {
+    webhookBatchMs: config.webhookBatchMs,
+    webhookMaxRetries: config.webhookMaxRetries,
+    webhookRetryBaseMs: config.webhookRetryBaseMs,
+  };
+
+  const app: App = {
+    ...appManager.getDefault(),
+    webhookUrl: `http://localhost:${RECEIVER_PORT}/hooks`,
+  };
+
+  async function waitForWebhooks(count: number, timeoutMs = 2000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (received.length < count) {
+      if (Date.now() > deadline) {
+        throw new Error(`Expected ${count} webhooks, got ${received.length}`);
+      }
+      await sleep(10);
+    }
+  }
+
+  beforeAll(async () => {
+    config.webhookBatchMs = 20;
+    config.webhookRetryBaseMs = 20;
+
+    receiver = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => {
+        body += chunk;
+      });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = statuses.shift() ?? 200;
+        res.end();
+      });
+    });
+
+    await new Promise<void>((resolve) => receiver.listen(RECEIVER_PORT, () => resolve()));
+  });
+
+  afterAll(async () => {
+    Object.assign(config, originals);
+    await new Promise<void>((resolve) => receiver.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    received = [];
+    statuses = [];
+    config.webhookMaxRetries = originals.webhookMaxRetries;
+  });
+
+  test('should batch events into one signed request', async () => {
+    const sender = new WebhookSender();
+    sender.enqueue(app, { name: 'channel_occupied', channel: 'public-room' });
+    sender.enqueue(app, { name: 'member_added', channel: 'presence-room', user_id: 'alice' });
+
+    await waitForWebhooks(1);
+    await sleep(50);
+    expect(received).toHaveLength(1);
+
+    const [webhook] = received;
+    expect(webhook.headers['content-type']).toBe('application/json');
+    expect(webhook.headers['x-pusher-key']).toBe(app.key);
+    expect(webhook.headers['x-pusher-signature']).toBe(signWebhookBody(app, webhook.body));
+
+    const payload = JSON.parse(webhook.body) as WebhookPayload;
+    expect(typeof payload.time_ms).toBe('number');
+    expect(payload.events).toEqual([
+      { name: 'channel_occupied', channel: 'public-room' },
+      { name: 'member_added', channel: 'presence-room', user_id: 'alice' },
+    ]);
+  });
+
+  test('should retry failed deliveries with the same payload', async () => {
+    statuses = [500, 503];
+    const sender = new WebhookSender();
+    sender.enqueue(app, { name: 'channel_vacated', channel: 'public-room' });
+
+    await waitForWebhooks(3);
+    expect(new Set(received.map((webhook) => webhook.body)).size).toBe(1);
+  });
+
+  test('should give up after the configured number of retries', async () => {
+    config.webhookMaxRetries = 1;
+    statuses = [500, 500, 500];
+    const sender = new WebhookSender();
+    sender.enqueue(app, { name: 'channel_vacated', channel: 'public-room' });
+
+    await waitForWebhooks(2);
+    await sleep(200);
+    expect(received).toHaveLength(2);
+  });
+
+  test('should not send anything for apps without a webhook URL', async () => {
+    const sender = new WebhookSender();
+    sender.enqueue({ ...app, webhookUrl: undefined }, { name: 'channel_occupied', channel: 'public-room' });
+
+    await sleep(100);
+    expect(received).toHaveLength(0);
+  });
+
+  test('should flush queued events on shutdown', async () => {
+    config.webhookBatchMs = 60000;
+    const sender = new WebhookSender();
+    sender.enqueue(app, { name: 'channel_occupied', channel: 'public-room' });
+
+    await sender.shutdown();
+    config.webhookBatchMs = 20;
+    expect(received).toHaveLength(1);
+  });
+
+  test('should report channel and presence lifecycle for app contexts', async () => {
+    appManager.load([app]);
+    const context = appManager.getContext(app);
+
+    context.channels.subscribe('presence-room', 'socket-1');
+    context.presence.addMember('presence-room', 'socket-1', { user_id: 'alice' });
+    context.presence.removeMember('presence-room', 'socket-1');
+    context.channels.unsubscribe('presence-room', 'socket-1');
+
+    await waitForWebhooks(1);
+    const payload = JSON.parse(received[0].body) as WebhookPayload;
+    expect(payload.events).toEqual([
+      { name: 'channel_occupied', channel: 'presence-room' },
+      { name: 'member_added', channel: 'presence-room', user_id: 'alice' },
+      { name: 'member_removed', channel: 'presence-room', user_id: 'alice' },
+      { name: 'channel_vacated', channel: 'presence-room' },
+    ]);
+  });
+});
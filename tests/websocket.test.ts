@@ -4,18 +4,65 @@
 
 import { WebSocket } from 'ws';
 import { createServer } from 'http';
+import net from 'net';
 import { wsServer } from '../src/ws/websocket-server.js';
 import { httpServer } from '../src/http/http-server.js';
-import { channelManager } from '../src/channels/channel-manager.js';
-import { presenceManager } from '../src/presence/presence-manager.js';
+import { appManager } from '../src/apps/app-manager.js';
+import { config } from '../src/utils/config.js';
+import { getSharedSecret } from '../src/utils/encryption.js';
+import nacl from 'tweetnacl';
+import {
+  signedFetch,
+  connectClient,
+  subscribeClient,
+  signinClient,
+  signJwt,
+  waitForMessage,
+  expectNoMessage,
+  type ErrorData,
+} from './helpers.js';
+import type { PresenceData, PresenceMember, WatchlistEvent } from '../src/types/index.js';
 
 const TEST_PORT = 3001;
 const WS_URL = `ws://localhost:${TEST_PORT}/ws`;
+const MASTER_KEY = Buffer.alloc(32, 7).toString('base64');
+
+const secondApp = {
+  id: 'second-app',
+  key: 'second-key',
+  secret: 'second-secret',
+  allowedOrigins: ['*'],
+  rateLimit: config.rateLimit,
+  enableClientMessages: false,
+};
+
+const limitedApp = {
+  id: 'limited-app',
+  key: 'limited-key',
+  secret: 'limited-secret',
+  allowedOrigins: ['*'],
+  rateLimit: {
+    ...config.rateLimit,
+    connectionLimitPerIp: 1,
+    channelLimitPerConnection: 1,
+    messageRateLimit: 1,
+    maxViolations: 2,
+  },
+  enableClientMessages: true,
+};
+const LIMITED_URL = `ws://localhost:${TEST_PORT}/app/${limitedApp.key}`;
 
 describe('WebSocket Server', () => {
   let server: ReturnType<typeof createServer>;
+  const defaultContext = () => appManager.getContext(appManager.getDefault());
 
   beforeAll(async () => {
+    appManager.load([
+      { ...appManager.getDefault(), enableClientMessages: true, encryptionMasterKey: MASTER_KEY },
+      secondApp,
+      limitedApp,
+    ]);
+
     // Setup test server
     process.env.PORT = String(TEST_PORT);
     process.env.AUTH_SECRET = 'test-secret';
@@ -32,8 +79,8 @@ describe('WebSocket Server', () => {
   });
 
   afterAll(async () => {
-    channelManager.clear();
-    presenceManager.clear();
+    defaultContext().channels.clear();
+    defaultContext().presence.clear();
     await wsServer.shutdown();
     await httpServer.shutdown();
     await new Promise<void>((resolve) => {
@@ -42,8 +89,8 @@ describe('WebSocket Server', () => {
   });
 
   beforeEach(() => {
-    channelManager.clear();
-    presenceManager.clear();
+    defaultContext().channels.clear();
+    defaultContext().presence.clear();
   });
 
   describe('Connection', () => {
@@ -61,29 +108,151 @@ describe('WebSocket Server', () => {
       });
     });
 
+    test('should send connection_established with socket ID and activity timeout', (done) => {
+      const ws = new WebSocket(WS_URL);
+
+      ws.on('message', (data) => {
+        const message = JSON.parse(data.toString());
+        expect(message.event).toBe('pusher:connection_established');
+        expect(typeof message.data).toBe('string');
+
+        const established = JSON.parse(message.data);
+        expect(established.socket_id).toMatch(/^\d+\.\d+$/);
+        expect(established.activity_timeout).toBe(config.activityTimeout);
+        ws.close();
+        done();
+      });
+    });
+
     test('should generate unique socket IDs', (done) => {
       const ws1 = new WebSocket(WS_URL);
       const ws2 = new WebSocket(WS_URL);
       const socketIds: string[] = [];
 
-      let completed = 0;
-      const checkDone = () => {
-        completed++;
-        if (completed === 2) {
-          expect(socketIds[0]).not.toBe(socketIds[1]);
-          done();
+      const onMessage = (ws: WebSocket) => (data: Buffer) => {
+        const message = JSON.parse(data.toString());
+        if (message.event === 'pusher:connection_established') {
+          socketIds.push(JSON.parse(message.data).socket_id);
+          ws.close();
+          if (socketIds.length === 2) {
+            expect(socketIds[0]).not.toBe(socketIds[1]);
+            done();
+          }
         }
       };
 
-      ws1.on('open', () => {
-        // Socket ID is not directly exposed, but we can verify connections are tracked
-        checkDone();
-        ws1.close();
+      ws1.on('message', onMessage(ws1));
+      ws2.on('message', onMessage(ws2));
+    });
+  });
+
+  describe('Apps', () => {
+    test('should accept connections on /app/:key', (done) => {
+      const ws = new WebSocket(`ws://localhost:${TEST_PORT}/app/${secondApp.key}`);
+
+      ws.on('open', () => {
+        ws.close();
+        done();
+      });
+
+      ws.on('error', (error) => {
+        done(error);
+      });
+    });
+
+    test('should close connections for unknown app keys with 4001', (done) => {
+      const ws = new WebSocket(`ws://localhost:${TEST_PORT}/app/unknown-key`);
+
+      ws.on('close', (code) => {
+        expect(code).toBe(4001);
+        done();
+      });
+
+      ws.on('error', (error) => {
+        done(error);
       });
+    });
+
+    test('should reject connections on unknown paths', (done) => {
+      const ws = new WebSocket(`ws://localhost:${TEST_PORT}/unknown`);
 
-      ws2.on('open', () => {
-        checkDone();
-        ws2.close();
+      ws.on('open', () => {
+        done(new Error('Connection should have been rejected'));
+      });
+
+      ws.on('error', (error) => {
+        expect(error.message).toContain('404');
+        done();
+      });
+    });
+
+    test('should answer malformed upgrade paths with 404', async () => {
+      // Raw requests, since WebSocket clients normalize the path before sending it
+      const upgrade = (requestPath: string) =>
+        new Promise<string>((resolve, reject) => {
+          const socket = net.connect(TEST_PORT, 'localhost', () => {
+            socket.write(
+              `GET ${requestPath} HTTP/1.1\r\nHost: localhost\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n` +
+                'Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==\r\nSec-WebSocket-Version: 13\r\n\r\n'
+            );
+          });
+          socket.once('data', (data) => {
+            resolve(data.toString().split('\r\n')[0]);
+            socket.destroy();
+          });
+          socket.on('error', reject);
+          socket.on('close', () => reject(new Error('Closed without a response')));
+        });
+
+      expect(await upgrade('//a:b')).toBe('HTTP/1.1 404 Not Found');
+      expect(await upgrade('/app/%E0%A4')).toBe('HTTP/1.1 404 Not Found');
+
+      const client = await connectClient(WS_URL);
+      client.ws.close();
+    });
+
+    test('should isolate channels between apps', (done) => {
+      const ws1 = new WebSocket(WS_URL);
+      const ws2 = new WebSocket(`ws://localhost:${TEST_PORT}/app/${secondApp.key}`);
+      let subscribed = 0;
+
+      const onSubscribed = () => {
+        subscribed++;
+        if (subscribed === 2) {
+          const delivered = wsServer.broadcastServerEvent(secondApp, 'public-chat', 'app-event', {});
+          expect(delivered).toBe(1);
+          expect(wsServer.getStats(secondApp).connections).toBe(1);
+          expect(defaultContext().channels.getSubscribers('public-chat').size).toBe(1);
+        }
+      };
+
+      for (const ws of [ws1, ws2]) {
+        ws.on('open', () => {
+          ws.send(JSON.stringify({
+            event: 'pusher:subscribe',
+            data: { channel: 'public-chat' },
+          }));
+        });
+      }
+
+      ws1.on('message', (data) => {
+        const message = JSON.parse(data.toString());
+        if (message.event === 'pusher_internal:subscription_succeeded') {
+          onSubscribed();
+        } else if (message.event === 'app-event') {
+          done(new Error('Event leaked across apps'));
+        }
+      });
+
+      ws2.on('message', (data) => {
+        const message = JSON.parse(data.toString());
+        if (message.event === 'pusher_internal:subscription_succeeded') {
+          onSubscribed();
+        } else if (message.event === 'app-event') {
+          ws1.close();
+          ws2.close();
+          done();
+        }
       });
     });
   });
@@ -124,6 +293,7 @@ describe('WebSocket Server', () => {
         const message = JSON.parse(data.toString());
         if (message.event === 'pusher:error') {
           expect(message.data.message).toContain('Invalid channel name');
+          expect(message.data.code).toBe(4300);
           ws.close();
           done();
         }
@@ -144,6 +314,7 @@ describe('WebSocket Server', () => {
         const message = JSON.parse(data.toString());
         if (message.event === 'pusher:error') {
           expect(message.data.message).toContain('Authentication required');
+          expect(message.data.code).toBe(4009);
           ws.close();
           done();
         }
@@ -172,115 +343,643 @@ describe('WebSocket Server', () => {
             event: 'pusher:unsubscribe',
             data: { channel: 'public-chat' },
           }));
-        } else if (subscribed) {
+          // Unsubscribe has no reply; a ping round trip proves it was processed
+          ws.send(JSON.stringify({ event: 'pusher:ping', data: {} }));
+        } else if (subscribed && message.event === 'pusher:pong') {
           // After unsubscribe, channel should be removed
-          setTimeout(() => {
-            const channel = channelManager.getChannel('public-chat');
-            expect(channel).toBeUndefined();
-            ws.close();
-            done();
-          }, 100);
+          const channel = defaultContext().channels.getChannel('public-chat');
+          expect(channel).toBeUndefined();
+          ws.close();
+          done();
         }
       });
     });
   });
 
-  describe('Publishing', () => {
-    test('should broadcast message to subscribers', (done) => {
-      const ws1 = new WebSocket(WS_URL);
-      const ws2 = new WebSocket(WS_URL);
-      let ws1Subscribed = false;
-      let ws2Subscribed = false;
+  describe('Client Events', () => {
+    test('should broadcast client events on private channels to other subscribers', async () => {
+      const sender = await connectClient(WS_URL);
+      const receiver = await connectClient(WS_URL);
+      await subscribeClient(sender, TEST_PORT, 'private-doc-1');
+      await subscribeClient(receiver, TEST_PORT, 'private-doc-1');
 
-      ws1.on('open', () => {
-        ws1.send(JSON.stringify({
-          event: 'pusher:subscribe',
-          data: { channel: 'public-chat' },
-        }));
+      const received = waitForMessage(receiver, (message) => message.event === 'client-typing');
+      sender.ws.send(JSON.stringify({
+        event: 'client-typing',
+        data: { text: 'Hello' },
+        channel: 'private-doc-1',
+      }));
+
+      const message = await received;
+      expect(message.channel).toBe('private-doc-1');
+      expect(message.data).toEqual({ text: 'Hello' });
+      expect(message.user_id).toBeUndefined();
+
+      // Sender is excluded
+      await expectNoMessage(sender, (msg) => msg.event === 'client-typing');
+
+      sender.ws.close();
+      receiver.ws.close();
+    });
+
+    test('should add user_id to presence channel client events', async () => {
+      const sender = await connectClient(WS_URL);
+      const receiver = await connectClient(WS_URL);
+      await subscribeClient(sender, TEST_PORT, 'presence-doc-1', { user_id: 'alice' });
+      await subscribeClient(receiver, TEST_PORT, 'presence-doc-1', { user_id: 'bob' });
+
+      const received = waitForMessage(receiver, (message) => message.event === 'client-cursor');
+      sender.ws.send(JSON.stringify({
+        event: 'client-cursor',
+        data: { x: 1, y: 2 },
+        channel: 'presence-doc-1',
+      }));
+
+      const message = await received;
+      expect(message.user_id).toBe('alice');
+      expect(message.data).toEqual({ x: 1, y: 2 });
+
+      sender.ws.close();
+      receiver.ws.close();
+    });
+
+    test('should reject client events on public channels', async () => {
+      const client = await connectClient(WS_URL);
+      await subscribeClient(client, TEST_PORT, 'public-chat');
+
+      const error = waitForMessage(client, (message) => message.event === 'pusher:error');
+      client.ws.send(JSON.stringify({
+        event: 'client-message',
+        data: { text: 'Hello' },
+        channel: 'public-chat',
+      }));
+
+      expect((await error).data).toEqual({
+        code: 4303,
+        message: 'Client events are only allowed on private and presence channels',
       });
+      client.ws.close();
+    });
+
+    test('should reject event names without the client- prefix', async () => {
+      const client = await connectClient(WS_URL);
+      await subscribeClient(client, TEST_PORT, 'private-doc-1');
+
+      const error = waitForMessage(client, (message) => message.event === 'pusher:error');
+      client.ws.send(JSON.stringify({
+        event: 'new-message',
+        data: { text: 'Hello' },
+        channel: 'private-doc-1',
+      }));
+
+      expect(((await error).data as ErrorData).message).toContain('must start with "client-"');
+      client.ws.close();
+    });
+
+    test('should reject client events when the app has not enabled them', async () => {
+      const client = await connectClient(`ws://localhost:${TEST_PORT}/app/${secondApp.key}`);
+      await subscribeClient(client, TEST_PORT, 'private-doc-1', undefined, secondApp.key);
+
+      const error = waitForMessage(client, (message) => message.event === 'pusher:error');
+      client.ws.send(JSON.stringify({
+        event: 'client-typing',
+        data: {},
+        channel: 'private-doc-1',
+      }));
+
+      expect(((await error).data as ErrorData).message).toContain('not enabled');
+      client.ws.close();
+    });
 
-      ws2.on('open', () => {
-        ws2.send(JSON.stringify({
+    test('should reject client events on encrypted channels', async () => {
+      const client = await connectClient(WS_URL);
+      await subscribeClient(client, TEST_PORT, 'private-encrypted-doc-1');
+
+      const error = waitForMessage(client, (message) => message.event === 'pusher:error');
+      client.ws.send(JSON.stringify({
+        event: 'client-typing',
+        data: {},
+        channel: 'private-encrypted-doc-1',
+      }));
+
+      expect(((await error).data as ErrorData).message).toContain('not allowed on encrypted channels');
+      client.ws.close();
+    });
+  });
+
+  describe('Server Events', () => {
+    test('should deliver events published over HTTP to subscribers', (done) => {
+      const ws = new WebSocket(WS_URL);
+
+      ws.on('open', () => {
+        ws.send(JSON.stringify({
           event: 'pusher:subscribe',
-          data: { channel: 'public-chat' },
+          data: { channel: 'public-news' },
         }));
       });
 
-      ws1.on('message', (data) => {
+      ws.on('message', async (data) => {
         const message = JSON.parse(data.toString());
         if (message.event === 'pusher_internal:subscription_succeeded') {
-          ws1Subscribed = true;
-          if (ws1Subscribed && ws2Subscribed) {
-            ws1.send(JSON.stringify({
-              event: 'new-message',
-              data: { text: 'Hello' },
-              channel: 'public-chat',
-            }));
-          }
-        } else if (message.event === 'new-message') {
-          expect(message.data.text).toBe('Hello');
-          ws1.close();
-          ws2.close();
+          const response = await signedFetch(TEST_PORT, 'POST', `/apps/${config.appId}/events`, {
+            name: 'headline',
+            data: { title: 'Breaking' },
+            channels: ['public-news'],
+          });
+          const result = (await response.json()) as { channels: Record<string, { delivered: number }> };
+          expect(result.channels['public-news'].delivered).toBe(1);
+        } else if (message.event === 'headline') {
+          expect(message.channel).toBe('public-news');
+          expect(message.data.title).toBe('Breaking');
+          ws.close();
           done();
         }
       });
+    });
+  });
+
+  describe('User Sign-in', () => {
+    test('should sign in with user data signed by /user-auth', async () => {
+      const client = await connectClient(WS_URL);
+      const result = await signinClient(client, TEST_PORT, { id: 'alice', user_info: { name: 'Alice' } });
+
+      expect(result.event).toBe('pusher:signin_success');
+      expect(JSON.parse(JSON.parse(result.data as string).user_data)).toEqual({ id: 'alice', user_info: { name: 'Alice' } });
+      client.ws.close();
+    });
+
+    test('should reject forged user data', async () => {
+      const client = await connectClient(WS_URL);
+      const error = waitForMessage(client, (message) => message.event === 'pusher:error');
+      client.ws.send(JSON.stringify({
+        event: 'pusher:signin',
+        data: { auth: `${config.appKey}:${'0'.repeat(64)}`, user_data: JSON.stringify({ id: 'admin' }) },
+      }));
+
+      expect(((await error).data as ErrorData).message).toBe('Authentication failed');
+      client.ws.close();
+    });
+
+    test('should deliver user events to every socket of the user', async () => {
+      const phone = await connectClient(WS_URL);
+      const laptop = await connectClient(WS_URL);
+      const other = await connectClient(WS_URL);
+      await signinClient(phone, TEST_PORT, { id: 'alice' });
+      await signinClient(laptop, TEST_PORT, { id: 'alice' });
+      await signinClient(other, TEST_PORT, { id: 'bob' });
+
+      const onPhone = waitForMessage(phone, (message) => message.event === 'order-shipped');
+      const onLaptop = waitForMessage(laptop, (message) => message.event === 'order-shipped');
+      const response = await signedFetch(TEST_PORT, 'POST', `/apps/${config.appId}/users/alice/events`, {
+        name: 'order-shipped',
+        data: { id: 7 },
+      });
 
-      ws2.on('message', (data) => {
-        const message = JSON.parse(data.toString());
-        if (message.event === 'pusher_internal:subscription_succeeded') {
-          ws2Subscribed = true;
-        } else if (message.event === 'new-message') {
-          expect(message.data.text).toBe('Hello');
+      expect(await response.json()).toEqual({ delivered: 2 });
+      expect((await onPhone).channel).toBe('#server-to-user-alice');
+      expect((await onLaptop).data).toEqual({ id: 7 });
+      await expectNoMessage(other, (message) => message.event === 'order-shipped');
+
+      phone.ws.close();
+      laptop.ws.close();
+      other.ws.close();
+    });
+  });
+
+  describe('Watchlists', () => {
+    beforeEach(() => {
+      defaultContext().watchlists.clear();
+    });
+
+    test('should send online users on sign-in, then status changes', async () => {
+      const friend = await connectClient(WS_URL);
+      await signinClient(friend, TEST_PORT, { id: 'friend-1' });
+
+      const watcher = await connectClient(WS_URL);
+      const initial = waitForMessage(watcher, (message) => message.event === 'pusher_internal:watchlist_events');
+      await signinClient(watcher, TEST_PORT, { id: 'watcher', watchlist: ['friend-1', 'friend-2'] });
+      expect(((await initial).data as { events: WatchlistEvent[] }).events).toEqual([{ name: 'online', user_ids: ['friend-1'] }]);
+
+      const online = waitForMessage(watcher, (message) => message.event === 'pusher_internal:watchlist_events');
+      const other = await connectClient(WS_URL);
+      await signinClient(other, TEST_PORT, { id: 'friend-2' });
+      expect(((await online).data as { events: WatchlistEvent[] }).events).toEqual([{ name: 'online', user_ids: ['friend-2'] }]);
+
+      const offline = waitForMessage(watcher, (message) => message.event === 'pusher_internal:watchlist_events');
+      other.ws.close();
+      expect(((await offline).data as { events: WatchlistEvent[] }).events).toEqual([{ name: 'offline', user_ids: ['friend-2'] }]);
+
+      friend.ws.close();
+      watcher.ws.close();
+    });
+
+    test('should report offline only when the last connection of a user closes', async () => {
+      const watcher = await connectClient(WS_URL);
+      await signinClient(watcher, TEST_PORT, { id: 'watcher', watchlist: ['multi'] });
+
+      const phone = await connectClient(WS_URL);
+      const laptop = await connectClient(WS_URL);
+      await signinClient(phone, TEST_PORT, { id: 'multi' });
+      await signinClient(laptop, TEST_PORT, { id: 'multi' });
+
+      const events = () => watcher.messages.filter((message) => message.event === 'pusher_internal:watchlist_events');
+      expect(events()).toHaveLength(1);
+
+      phone.ws.close();
+      await expectNoMessage(watcher, (message) => message.event === 'pusher_internal:watchlist_events');
+
+      const offline = waitForMessage(watcher, (message) => message.event === 'pusher_internal:watchlist_events');
+      laptop.ws.close();
+      expect(((await offline).data as { events: WatchlistEvent[] }).events).toEqual([{ name: 'offline', user_ids: ['multi'] }]);
+
+      watcher.ws.close();
+    });
+  });
+
+  describe('Terminate Connections', () => {
+    test('should close every socket of the user and clean up their presence', async () => {
+      const phone = await connectClient(WS_URL);
+      const laptop = await connectClient(WS_URL);
+      const observer = await connectClient(WS_URL);
+      await signinClient(phone, TEST_PORT, { id: 'mallory' });
+      await signinClient(laptop, TEST_PORT, { id: 'mallory' });
+      await subscribeClient(phone, TEST_PORT, 'presence-lobby', { user_id: 'mallory' });
+      await subscribeClient(observer, TEST_PORT, 'presence-lobby', { user_id: 'trent' });
+
+      const closeCodes = [phone, laptop].map(
+        (client) => new Promise<number>((resolve) => client.ws.once('close', (code) => resolve(code)))
+      );
+      const memberRemoved = waitForMessage(observer, (message) => message.event === 'pusher_internal:member_removed');
+
+      const response = await signedFetch(
+        TEST_PORT,
+        'POST',
+        `/apps/${config.appId}/users/mallory/terminate_connections`,
+        {}
+      );
+
+      expect(await response.json()).toEqual({ terminated: 2 });
+      expect(await Promise.all(closeCodes)).toEqual([4009, 4009]);
+      expect(((await memberRemoved).data as PresenceMember).user_id).toBe('mallory');
+      expect(defaultContext().presence.getUserIds('presence-lobby')).toEqual(['trent']);
+      expect(observer.ws.readyState).toBe(WebSocket.OPEN);
+
+      observer.ws.close();
+    });
+  });
+
+  describe('Error Codes', () => {
+    test('should close connections over the per-IP limit with 4100', async () => {
+      const first = await connectClient(LIMITED_URL);
+      const second = new WebSocket(LIMITED_URL);
+
+      const code = await new Promise<number>((resolve) => second.once('close', (closeCode) => resolve(closeCode)));
+      expect(code).toBe(4100);
+
+      const firstClosed = new Promise((resolve) => first.ws.once('close', resolve));
+      first.ws.close();
+      await firstClosed;
+    });
+
+    test('should report channel and client event limits with their codes', async () => {
+      const client = await connectClient(LIMITED_URL);
+      await subscribeClient(client, TEST_PORT, 'private-doc-1', undefined, limitedApp.key);
+
+      const channelLimit = waitForMessage(client, (message) => message.event === 'pusher:error');
+      client.ws.send(JSON.stringify({ event: 'pusher:subscribe', data: { channel: 'public-news' } }));
+      expect((await channelLimit).data).toEqual({ code: 4302, message: 'Channel limit exceeded' });
+
+      const clientEvent = { event: 'client-typing', data: {}, channel: 'private-doc-1' };
+      const rateLimit = waitForMessage(client, (message) => message.event === 'pusher:error');
+      client.ws.send(JSON.stringify(clientEvent));
+      client.ws.send(JSON.stringify(clientEvent));
+      expect((await rateLimit).data).toEqual({ code: 4301, message: 'Rate limit exceeded' });
+
+      const closed = new Promise((resolve) => client.ws.once('close', resolve));
+      client.ws.close();
+      await closed;
+    });
+
+    test('should close connections that keep exceeding the rate limit with 4100', async () => {
+      const client = await connectClient(LIMITED_URL);
+      await subscribeClient(client, TEST_PORT, 'private-doc-1', undefined, limitedApp.key);
+
+      const errors: number[] = [];
+      client.ws.on('message', (raw) => {
+        const message = JSON.parse(raw.toString());
+        if (message.event === 'pusher:error') {
+          errors.push(message.data.code);
         }
       });
+      const closed = new Promise<number>((resolve) => client.ws.once('close', (code) => resolve(code)));
+
+      const clientEvent = JSON.stringify({ event: 'client-typing', data: {}, channel: 'private-doc-1' });
+      for (let i = 0; i < 4; i++) {
+        client.ws.send(clientEvent);
+      }
+
+      expect(await closed).toBe(4100);
+      expect(errors).toEqual([4301, 4301]);
+    });
+  });
+
+  describe('Cache Channels', () => {
+    test('should send cache_miss to subscribers when nothing is cached', async () => {
+      const client = await connectClient(WS_URL);
+      const cacheMiss = waitForMessage(client, (message) => message.event === 'pusher:cache_miss');
+      await subscribeClient(client, TEST_PORT, 'cache-scores');
+
+      expect((await cacheMiss).channel).toBe('cache-scores');
+      client.ws.close();
+    });
+
+    test('should replay the last event to new subscribers', async () => {
+      await signedFetch(TEST_PORT, 'POST', `/apps/${config.appId}/events`, {
+        name: 'saved',
+        data: { revision: 1 },
+        channel: 'private-cache-doc-1',
+      });
+      await signedFetch(TEST_PORT, 'POST', `/apps/${config.appId}/events`, {
+        name: 'saved',
+        data: { revision: 2 },
+        channel: 'private-cache-doc-1',
+      });
+
+      const client = await connectClient(WS_URL);
+      const replayed = waitForMessage(client, (message) => message.event === 'saved');
+      await subscribeClient(client, TEST_PORT, 'private-cache-doc-1');
+
+      expect((await replayed).data).toEqual({ revision: 2 });
+      client.ws.close();
+    });
+  });
+
+  describe('History', () => {
+    const originalHistorySize = config.historySize;
+
+    beforeAll(() => {
+      config.historySize = 10;
+    });
+
+    afterAll(() => {
+      config.historySize = originalHistorySize;
+    });
+
+    beforeEach(() => {
+      defaultContext().history.clear();
+    });
+
+    const publish = (data: unknown) =>
+      signedFetch(TEST_PORT, 'POST', `/apps/${config.appId}/events`, {
+        name: 'update',
+        data,
+        channel: 'public-feed',
+      });
+
+    test('should number live events and replay missed ones on resubscribe', async () => {
+      const client = await connectClient(WS_URL);
+      const first = waitForMessage(client, (message) => message.event === 'update');
+      await subscribeClient(client, TEST_PORT, 'public-feed');
+      await publish({ n: 1 });
+      const seen = await first;
+      expect(seen.seq).toBe(1);
+      client.ws.close();
+
+      await publish({ n: 2 });
+      await publish({ n: 3 });
+
+      const reconnected = await connectClient(WS_URL);
+      const caughtUp = waitForMessage(reconnected, (message) => message.event === 'update' && message.seq === 3);
+      reconnected.ws.send(JSON.stringify({
+        event: 'pusher:subscribe',
+        data: { channel: 'public-feed', since: seen.seq },
+      }));
+
+      await caughtUp;
+      const replayed = reconnected.messages.filter((message) => message.event === 'update');
+      expect(replayed.map((message) => (message.data as { n: number }).n)).toEqual([2, 3]);
+      reconnected.ws.close();
+    });
+
+    test('should warn about a gap when missed events are no longer buffered', async () => {
+      const client = await connectClient(WS_URL);
+      const gap = waitForMessage(client, (message) => message.event === 'pusher:history_gap');
+      client.ws.send(JSON.stringify({
+        event: 'pusher:subscribe',
+        data: { channel: 'public-feed', since: 42 },
+      }));
+
+      expect((await gap).data).toEqual({ since: 42 });
+      client.ws.close();
+    });
+  });
+
+  describe('Encrypted Channels', () => {
+    test('should deliver server events sealed with the channel shared secret', async () => {
+      const client = await connectClient(WS_URL);
+      await subscribeClient(client, TEST_PORT, 'private-encrypted-dm-1');
+
+      const received = waitForMessage(client, (message) => message.event === 'secret');
+      await signedFetch(TEST_PORT, 'POST', `/apps/${config.appId}/events`, {
+        name: 'secret',
+        data: { text: 'Hello' },
+        channel: 'private-encrypted-dm-1',
+      });
+
+      const { nonce, ciphertext } = JSON.parse((await received).data as string);
+      const plaintext = nacl.secretbox.open(
+        Buffer.from(ciphertext, 'base64'),
+        Buffer.from(nonce, 'base64'),
+        getSharedSecret(MASTER_KEY, 'private-encrypted-dm-1')
+      );
+      expect(JSON.parse(Buffer.from(plaintext!).toString())).toEqual({ text: 'Hello' });
+      client.ws.close();
+    });
+  });
+
+  describe('JWT Auth', () => {
+    const originalSecret = config.jwtSecret;
+    const subscribe = (client: { ws: WebSocket }, data: Record<string, unknown>) =>
+      client.ws.send(JSON.stringify({ event: 'pusher:subscribe', data }));
+    const isResult = (message: { event: string }) =>
+      message.event === 'pusher_internal:subscription_succeeded' || message.event === 'pusher:error';
+    const expiresIn = (seconds: number) => Math.floor(Date.now() / 1000) + seconds;
+    const token = (claims: Record<string, unknown>) =>
+      signJwt({ app_id: appManager.getDefault().id, ...claims }, 'jwt-secret');
+
+    beforeAll(() => {
+      config.jwtSecret = 'jwt-secret';
+    });
+
+    afterAll(() => {
+      config.jwtSecret = originalSecret;
+    });
+
+    test('should subscribe with a JWT granting the channel', async () => {
+      const client = await connectClient(WS_URL);
+      const auth = token({ exp: expiresIn(60), channels: ['private-doc-*'], socket_id: client.socketId });
+
+      const result = waitForMessage(client, isResult);
+      subscribe(client, { channel: 'private-doc-1', auth });
+      expect((await result).event).toBe('pusher_internal:subscription_succeeded');
+
+      const denied = waitForMessage(client, isResult);
+      subscribe(client, { channel: 'private-admin', auth });
+      expect(((await denied).data as ErrorData).code).toBe(4009);
+      client.ws.close();
+    });
+
+    test('should require an app_id naming this app when several apps are configured', async () => {
+      const client = await connectClient(WS_URL);
+
+      for (const auth of [
+        signJwt({ exp: expiresIn(60), channels: ['*'] }, 'jwt-secret'),
+        token({ exp: expiresIn(60), channels: ['*'], app_id: secondApp.id }),
+      ]) {
+        const denied = waitForMessage(client, isResult);
+        subscribe(client, { channel: 'private-doc-4', auth });
+        expect(((await denied).data as ErrorData).code).toBe(4009);
+      }
+      client.ws.close();
+    });
+
+    test('should take the presence member from the claims', async () => {
+      const client = await connectClient(WS_URL);
+      const auth = token({ exp: expiresIn(60), channels: ['presence-*'], user_id: 'alice', user_info: { name: 'Alice' } });
+
+      const result = waitForMessage(client, isResult);
+      subscribe(client, { channel: 'presence-jwt', auth, channel_data: JSON.stringify({ user_id: 'admin' }) });
+
+      const { presence } = (await result).data as PresenceData;
+      expect(Object.keys(presence.hash)).toEqual(['alice']);
+      expect(presence.hash.alice.user_info).toEqual({ name: 'Alice' });
+      client.ws.close();
+    });
+
+    test('should revoke the subscription when the token expires', async () => {
+      const client = await connectClient(WS_URL);
+      const subscribed = waitForMessage(client, isResult);
+      subscribe(client, { channel: 'private-doc-2', auth: token({ exp: expiresIn(2), channels: ['*'] }) });
+      expect((await subscribed).event).toBe('pusher_internal:subscription_succeeded');
+
+      const expired = await waitForMessage(client, (message) => message.event === 'pusher:subscription_expired', 4000);
+      expect(expired.channel).toBe('private-doc-2');
+      expect(defaultContext().channels.getSubscribers('private-doc-2').size).toBe(0);
+      client.ws.close();
+    });
+
+    test('should extend the subscription when resubscribing with a fresh token', async () => {
+      const client = await connectClient(WS_URL);
+      const subscribed = waitForMessage(client, isResult);
+      subscribe(client, { channel: 'private-doc-3', auth: token({ exp: expiresIn(2), channels: ['*'] }) });
+      expect((await subscribed).event).toBe('pusher_internal:subscription_succeeded');
+
+      const renewed = waitForMessage(client, isResult);
+      subscribe(client, { channel: 'private-doc-3', auth: token({ exp: expiresIn(60), channels: ['*'] }) });
+      expect((await renewed).event).toBe('pusher_internal:subscription_succeeded');
+
+      await expectNoMessage(client, (message) => message.event === 'pusher:subscription_expired', 2500);
+      client.ws.close();
+    });
+
+    test('should renew a subscription at the channel limit', async () => {
+      const { rateLimit } = appManager.getDefault();
+      const originalLimit = rateLimit.channelLimitPerConnection;
+      rateLimit.channelLimitPerConnection = 1;
+
+      try {
+        const client = await connectClient(WS_URL);
+        const subscribed = waitForMessage(client, isResult);
+        subscribe(client, { channel: 'private-doc-5', auth: token({ exp: expiresIn(2), channels: ['*'] }) });
+        expect((await subscribed).event).toBe('pusher_internal:subscription_succeeded');
+
+        const renewed = waitForMessage(client, isResult);
+        subscribe(client, { channel: 'private-doc-5', auth: token({ exp: expiresIn(60), channels: ['*'] }) });
+        expect((await renewed).event).toBe('pusher_internal:subscription_succeeded');
+
+        await expectNoMessage(client, (message) => message.event === 'pusher:subscription_expired', 2500);
+        expect(defaultContext().channels.getSubscribers('private-doc-5').size).toBe(1);
+        client.ws.close();
+      } finally {
+        rateLimit.channelLimitPerConnection = originalLimit;
+      }
     });
   });
 
   describe('Presence Channels', () => {
     test('should handle presence channel subscription', (done) => {
       const ws = new WebSocket(WS_URL);
-      let socketId: string | null = null;
+      const channelData = JSON.stringify({
+        user_id: 'user-123',
+        user_info: { name: 'Test User' },
+      });
 
-      ws.on('open', async () => {
-        // Wait a bit for socket ID to be assigned, then get auth
-        // In real scenario, socket ID would come from connection metadata
-        // For test, we'll use a placeholder and the server will handle it
-        socketId = 'test-socket-' + Date.now();
-        
-        // First, get auth token
-        const response = await fetch(`http://localhost:${TEST_PORT}/auth`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            socket_id: socketId,
-            channel_name: 'presence-room-abc',
-            channel_data: JSON.stringify({
-              user_id: 'user-123',
-              user_info: { name: 'Test User' },
-            }),
-          }),
-        });
+      ws.on('message', async (data) => {
+        const message = JSON.parse(data.toString());
+        if (message.event === 'pusher:connection_established') {
+          const { socket_id: socketId } = JSON.parse(message.data);
 
-        const auth = await response.json();
-        
-        ws.send(JSON.stringify({
-          event: 'pusher:subscribe',
-          data: {
-            channel: 'presence-room-abc',
-            auth: auth.auth,
-            channel_data: JSON.stringify({
-              user_id: 'user-123',
-              user_info: { name: 'Test User' },
+          // First, get auth token for our socket ID
+          const response = await fetch(`http://localhost:${TEST_PORT}/auth`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              socket_id: socketId,
+              channel_name: 'presence-room-abc',
+              channel_data: channelData,
             }),
-          },
-        }));
-      });
+          });
 
-      ws.on('message', (data) => {
-        const message = JSON.parse(data.toString());
-        if (message.event === 'pusher_internal:subscription_succeeded') {
+          const auth = (await response.json()) as { auth: string; channel_data: string };
+
+          ws.send(JSON.stringify({
+            event: 'pusher:subscribe',
+            data: {
+              channel: 'presence-room-abc',
+              auth: auth.auth,
+              channel_data: auth.channel_data,
+            },
+          }));
+        } else if (message.event === 'pusher_internal:subscription_succeeded') {
           expect(message.data.presence).toBeDefined();
           expect(message.data.presence.count).toBeGreaterThanOrEqual(1);
+          expect(message.data.presence.hash['user-123']).toBeDefined();
+          ws.close();
+          done();
+        }
+      });
+    });
+
+    test('should reject presence subscription with forged channel_data', (done) => {
+      const ws = new WebSocket(WS_URL);
+
+      ws.on('message', async (data) => {
+        const message = JSON.parse(data.toString());
+        if (message.event === 'pusher:connection_established') {
+          const { socket_id: socketId } = JSON.parse(message.data);
+
+          const response = await fetch(`http://localhost:${TEST_PORT}/auth`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              socket_id: socketId,
+              channel_name: 'presence-room-abc',
+              channel_data: JSON.stringify({ user_id: 'user-123' }),
+            }),
+          });
+
+          const auth = (await response.json()) as { auth: string };
+
+          ws.send(JSON.stringify({
+            event: 'pusher:subscribe',
+            data: {
+              channel: 'presence-room-abc',
+              auth: auth.auth,
+              channel_data: JSON.stringify({ user_id: 'admin' }),
+            },
+          }));
+        } else if (message.event === 'pusher:error') {
+          expect(message.data.message).toContain('Authentication failed');
           ws.close();
           done();
         }
@@ -288,6 +987,37 @@ describe('WebSocket Server', () => {
     });
   });
 
+  describe('Presence Users', () => {
+    test('should count a user with several sockets once', async () => {
+      const watcher = await connectClient(WS_URL);
+      await subscribeClient(watcher, TEST_PORT, 'presence-tabs', { user_id: 'watcher' });
+
+      const memberAdded = waitForMessage(watcher, (message) => message.event === 'pusher_internal:member_added');
+      const tab1 = await connectClient(WS_URL);
+      await subscribeClient(tab1, TEST_PORT, 'presence-tabs', { user_id: 'alice' });
+      expect(((await memberAdded).data as PresenceMember).user_id).toBe('alice');
+
+      const tab2 = await connectClient(WS_URL);
+      const secondTab = subscribeClient(tab2, TEST_PORT, 'presence-tabs', { user_id: 'alice' });
+      await expectNoMessage(watcher, (message) => message.event === 'pusher_internal:member_added');
+
+      const subscribed = await secondTab;
+      const { presence } = subscribed.data as PresenceData;
+      expect(presence.count).toBe(2);
+      expect(Object.keys(presence.hash).sort()).toEqual(['alice', 'watcher']);
+
+      // Closing one tab keeps alice online
+      tab1.ws.close();
+      await expectNoMessage(watcher, (message) => message.event === 'pusher_internal:member_removed');
+
+      const memberRemoved = waitForMessage(watcher, (message) => message.event === 'pusher_internal:member_removed');
+      tab2.ws.close();
+      expect(((await memberRemoved).data as PresenceMember).user_id).toBe('alice');
+
+      watcher.ws.close();
+    });
+  });
+
   describe('Heartbeat', () => {
     test('should respond to ping with pong', (done) => {
       const ws = new WebSocket(WS_URL);